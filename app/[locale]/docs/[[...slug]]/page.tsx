@@ -0,0 +1,8 @@
+import { getDocsStaticParams } from "@/lib/routes-config";
+
+// same page as /docs, the locale param picks contents/<locale>/docs
+export { default, generateMetadata } from "@/app/docs/[[...slug]]/page";
+
+export function generateStaticParams() {
+  return getDocsStaticParams();
+}
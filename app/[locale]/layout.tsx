@@ -0,0 +1,26 @@
+import { DEFAULT_LOCALE, getLocale, LOCALES } from "@/lib/i18n";
+
+type LocaleLayoutProps = Readonly<{
+  children: React.ReactNode;
+  params: Promise<{ locale: string }>;
+}>;
+
+// only the configured locales exist, everything else is a 404
+export const dynamicParams = false;
+
+export default async function LocaleLayout(props: LocaleLayoutProps) {
+  const { locale } = await props.params;
+  const { code, dir } = getLocale(locale);
+
+  return (
+    <div lang={code} dir={dir}>
+      {props.children}
+    </div>
+  );
+}
+
+export function generateStaticParams() {
+  return LOCALES.filter((it) => it.code != DEFAULT_LOCALE).map((it) => ({
+    locale: it.code,
+  }));
+}
@@ -0,0 +1,20 @@
+import { getAllBlogAssets, getBlogAsset } from "@/lib/markdown";
+
+type RouteProps = {
+  params: Promise<{ slug: string; asset: string[] }>;
+};
+
+export const dynamic = "force-static";
+
+export async function GET(_request: Request, props: RouteProps) {
+  const { slug, asset } = await props.params;
+  const res = await getBlogAsset(slug, asset.join("/"));
+  if (!res) return new Response("Not found", { status: 404 });
+  return new Response(res.data, {
+    headers: { "Content-Type": res.type },
+  });
+}
+
+export async function generateStaticParams() {
+  return await getAllBlogAssets();
+}
@@ -5,7 +5,12 @@ import { ArrowLeftIcon } from "lucide-react";
 import Link from "next/link";
 import { notFound } from "next/navigation";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { formatDate } from "@/lib/utils";
+import PageHistory from "@/components/page-history";
+import DraftBanner from "@/components/draft-banner";
+import { isPublished } from "@/lib/frontmatter";
+import { isVisible } from "@/lib/preview";
+import { formatDate, stringToDate } from "@/lib/utils";
+import { getBlogOgImageHref, getOgMetadata } from "@/lib/og";
 import Image from "next/image";
 
 type PageProps = {
@@ -18,11 +23,21 @@ export async function generateMetadata(props: PageProps) {
   const { slug } = params;
 
   const res = await getBlogForSlug(slug);
-  if (!res) return {};
+  if (!res || !(await isVisible(res.frontmatter))) return {};
   const { frontmatter } = res;
   return {
     title: frontmatter.title,
     description: frontmatter.description,
+    keywords: frontmatter.keywords,
+    ...(frontmatter.noindex && { robots: { index: false } }),
+    ...getOgMetadata({
+      title: frontmatter.title,
+      description: frontmatter.description,
+      href: `/blog/${slug}`,
+      image: getBlogOgImageHref(slug),
+      publishedTime: stringToDate(frontmatter.date).toISOString(),
+      authors: frontmatter.authors.map((it) => it.handleUrl),
+    }),
   };
 }
 
@@ -38,7 +53,7 @@ export default async function BlogPage(props: PageProps) {
   const { slug } = params;
 
   const res = await getBlogForSlug(slug);
-  if (!res) notFound();
+  if (!res || !(await isVisible(res.frontmatter))) notFound();
   return (
     <div className="lg:w-[60%] sm:[95%] md:[75%] mx-auto">
       <Link
@@ -50,6 +65,9 @@ export default async function BlogPage(props: PageProps) {
       >
         <ArrowLeftIcon className="w-4 h-4 mr-1.5" /> Back to blog
       </Link>
+      {!isPublished(res.frontmatter) && (
+        <DraftBanner exitPath="/blog" publishAt={res.frontmatter.publishAt} />
+      )}
       <div className="flex flex-col gap-3 pb-7 w-full mb-2">
         <p className="text-muted-foreground text-sm">
           {formatDate(res.frontmatter.date)}
@@ -72,7 +90,10 @@ export default async function BlogPage(props: PageProps) {
             className="w-full h-[400px] rounded-md border object-cover"
           />
         </div>
-        <Typography>{res.content}</Typography>
+        <Typography>
+          {res.content}
+          <PageHistory filePath={res.filePath} />
+        </Typography>
       </div>
     </div>
   );
@@ -0,0 +1,9 @@
+import { FEEDS, getFeedEntries, toAtom } from "@/lib/feed";
+
+export const dynamic = "force-static";
+
+export async function GET() {
+  return new Response(toAtom(await getFeedEntries()), {
+    headers: { "Content-Type": `${FEEDS.atom.type}; charset=utf-8` },
+  });
+}
@@ -0,0 +1,9 @@
+import { FEEDS, getFeedEntries, toJsonFeed } from "@/lib/feed";
+
+export const dynamic = "force-static";
+
+export async function GET() {
+  return new Response(toJsonFeed(await getFeedEntries()), {
+    headers: { "Content-Type": `${FEEDS.json.type}; charset=utf-8` },
+  });
+}
@@ -1,4 +1,5 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { FEEDS } from "@/lib/feed";
 import { Author, BlogMdxFrontmatter, getAllBlogs } from "@/lib/markdown";
 import { formatDate2, stringToDate } from "@/lib/utils";
 import { Metadata } from "next";
@@ -6,7 +7,15 @@ import Image from "next/image";
 import Link from "next/link";
 
 export const metadata: Metadata = {
-  title: "go-style-errors - Blog",
+  title: "Blog",
+  // feed autodiscovery
+  alternates: {
+    types: {
+      [FEEDS.rss.type]: [{ url: FEEDS.rss.href, title: "RSS" }],
+      [FEEDS.atom.type]: [{ url: FEEDS.atom.href, title: "Atom" }],
+      [FEEDS.json.type]: [{ url: FEEDS.json.href, title: "JSON Feed" }],
+    },
+  },
 };
 
 export default async function BlogIndexPage() {
@@ -0,0 +1,9 @@
+import { FEEDS, getFeedEntries, toRss } from "@/lib/feed";
+
+export const dynamic = "force-static";
+
+export async function GET() {
+  return new Response(toRss(await getFeedEntries()), {
+    headers: { "Content-Type": `${FEEDS.rss.type}; charset=utf-8` },
+  });
+}
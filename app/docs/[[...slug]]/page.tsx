@@ -1,28 +1,99 @@
 import DocsBreadcrumb from "@/components/docs-breadcrumb";
 import Pagination from "@/components/pagination";
+import PageHistory from "@/components/page-history";
 import Toc from "@/components/toc";
-import { page_routes } from "@/lib/routes-config";
-import { notFound } from "next/navigation";
-import { getDocsForSlug } from "@/lib/markdown";
+import VersionBanner from "@/components/version-banner";
+import UntranslatedBanner from "@/components/untranslated-banner";
+import DraftBanner from "@/components/draft-banner";
+import Outlet from "@/components/markdown/outlet";
+import {
+  getDocsStaticParams,
+  LATEST_ALIAS,
+  LATEST_VERSION,
+  VERSIONS,
+} from "@/lib/routes-config";
+import { notFound, redirect } from "next/navigation";
+import {
+  type BaseMdxFrontmatter,
+  getDocsForSlug,
+  getDocsSection,
+} from "@/lib/markdown";
+import { isPublished } from "@/lib/frontmatter";
+import { isVisible } from "@/lib/preview";
 import { Typography } from "@/components/typography";
+import { findClosestPage, findVersion } from "@/lib/utils";
+import { localizeHref } from "@/lib/i18n";
+import { getDocsOgImageHref, getOgMetadata } from "@/lib/og";
 
-type PageProps = {
-  params: Promise<{ slug: string[] }>;
+// also rendered by app/[locale]/docs/[[...slug]]/page.tsx
+export type PageProps = {
+  params: Promise<{ slug?: string[]; locale?: string }>;
 };
 
 export default async function DocsPage(props: PageProps) {
   const params = await props.params;
 
-  const { slug = [] } = params;
+  const { slug = [], locale } = params;
+  if ([LATEST_ALIAS, LATEST_VERSION].includes(slug[0])) {
+    redirect(localizeHref(`/docs/${slug.slice(1).join("/")}`, locale));
+  }
 
   const pathName = slug.join("/");
-  const res = await getDocsForSlug(pathName);
+  const version = findVersion(`/${pathName}`, VERSIONS);
+  const versionBanner = !version.latest && (
+    <VersionBanner
+      name={version.name}
+      latestHref={localizeHref(
+        `/docs${findClosestPage(
+          `/${pathName}`.slice(version.prefix.length),
+          VERSIONS[0],
+        )}`,
+        locale,
+      )}
+    />
+  );
+
+  // noLink sections list the pages below them
+  const section = await getDocsSection(pathName, locale);
+  if (section) {
+    return (
+      <div className="flex items-start gap-10">
+        <div className="flex-[4.5] py-10">
+          {versionBanner}
+          {section.untranslated && <UntranslatedBanner locale={locale} />}
+          <DocsBreadcrumb paths={slug} title={section.title} locale={locale} />
+          <Typography>
+            <h1 className="sm:text-3xl text-2xl !-mt-0.5">{section.title}</h1>
+            <p className="-mt-4 text-muted-foreground sm:text-[16.5px] text-[14.5px]">
+              {section.description}
+            </p>
+            <Outlet path={pathName} />
+          </Typography>
+        </div>
+      </div>
+    );
+  }
 
-  if (!res) notFound();
+  const res = await getDocsForSlug(pathName, locale);
+  if (!res || !(await isVisible(res.frontmatter))) notFound();
+  const isDraft = !isPublished(res.frontmatter);
   return (
     <div className="flex items-start gap-10">
       <div className="flex-[4.5] py-10">
-        <DocsBreadcrumb paths={slug} />
+        {versionBanner}
+        {res.untranslated && <UntranslatedBanner locale={locale} />}
+        {isDraft && (
+          <DraftBanner
+            exitPath={localizeHref("/docs", locale)}
+            publishAt={res.frontmatter.publishAt}
+            locale={locale}
+          />
+        )}
+        <DocsBreadcrumb
+          paths={slug}
+          title={res.frontmatter.title}
+          locale={locale}
+        />
         <Typography>
           <h1 className="sm:text-3xl text-2xl !-mt-0.5">
             {res.frontmatter.title}
@@ -31,10 +102,11 @@ export default async function DocsPage(props: PageProps) {
             {res.frontmatter.description}
           </p>
           <div>{res.content}</div>
-          <Pagination pathname={pathName} />
+          <PageHistory filePath={res.filePath} locale={locale} />
+          <Pagination pathname={pathName} locale={locale} />
         </Typography>
       </div>
-      <Toc path={pathName} />
+      <Toc tocs={res.tocs} locale={locale} />
     </div>
   );
 }
@@ -42,20 +114,30 @@ export default async function DocsPage(props: PageProps) {
 export async function generateMetadata(props: PageProps) {
   const params = await props.params;
 
-  const { slug = [] } = params;
+  const { slug = [], locale } = params;
 
   const pathName = slug.join("/");
-  const res = await getDocsForSlug(pathName);
-  if (!res) return {};
-  const { frontmatter } = res;
+  let frontmatter: BaseMdxFrontmatter | undefined =
+    await getDocsSection(pathName, locale);
+  if (!frontmatter) {
+    const res = await getDocsForSlug(pathName, locale);
+    if (!res || !(await isVisible(res.frontmatter))) return {};
+    frontmatter = res.frontmatter;
+  }
   return {
     title: frontmatter.title,
     description: frontmatter.description,
+    keywords: frontmatter.keywords,
+    ...(frontmatter.noindex && { robots: { index: false } }),
+    ...getOgMetadata({
+      title: frontmatter.title,
+      description: frontmatter.description,
+      href: localizeHref(`/docs${pathName ? `/${pathName}` : ""}`, locale),
+      image: getDocsOgImageHref(pathName),
+    }),
   };
 }
 
 export function generateStaticParams() {
-  return page_routes.map((item) => ({
-    slug: item.href.split("/").slice(1),
-  }));
+  return getDocsStaticParams();
 }
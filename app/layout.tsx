@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { ThemeProvider } from "@/components/contexts/theme-provider";
 import { Navbar } from "@/components/navbar";
+import { SITE_NAME, SITE_URL } from "@/lib/site";
 import { Space_Mono, Space_Grotesk } from "next/font/google";
 // import { Footer } from "@/components/footer";
 import "@/styles/globals.css";
@@ -21,8 +22,12 @@ const monoFont = Space_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "go-style-errors - Documentation",
-  metadataBase: new URL("https://github.com/ashkansamadiyan/go-style-errors"),
+  // pages set their own title, e.g. "Installation - go-style-errors"
+  title: {
+    default: "go-style-errors - Documentation",
+    template: `%s - ${SITE_NAME}`,
+  },
+  metadataBase: new URL(SITE_URL),
   description:
     "This comprehensive documentation template, crafted with Next.js and available as open-source, delivers a sleek and responsive design, tailored to meet all your project documentation requirements.",
 };
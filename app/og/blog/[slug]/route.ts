@@ -0,0 +1,33 @@
+import { getAllBlogStaticPaths, getBlogForSlug } from "@/lib/markdown";
+import { isPublished } from "@/lib/frontmatter";
+import { renderBlogImage } from "@/lib/og";
+import { formatDate2 } from "@/lib/utils";
+
+type RouteProps = {
+  params: Promise<{ slug: string }>;
+};
+
+export const dynamic = "force-static";
+
+export async function GET(_request: Request, props: RouteProps) {
+  const { slug } = await props.params;
+  const res = await getBlogForSlug(slug);
+  if (!res || !isPublished(res.frontmatter)) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const { title, date, cover, authors } = res.frontmatter;
+  return await renderBlogImage({
+    slug,
+    title,
+    date: formatDate2(date),
+    cover,
+    authors,
+  });
+}
+
+export async function generateStaticParams() {
+  const val = await getAllBlogStaticPaths();
+  if (!val) return [];
+  return val.map((it) => ({ slug: it }));
+}
@@ -0,0 +1,47 @@
+import {
+  type BaseMdxFrontmatter,
+  getDocsForSlug,
+  getDocsSection,
+} from "@/lib/markdown";
+import { isPublished } from "@/lib/frontmatter";
+import { renderDocsImage } from "@/lib/og";
+import { page_routes, section_routes, VERSIONS } from "@/lib/routes-config";
+import { findVersion, getSectionTitles } from "@/lib/utils";
+
+type RouteProps = {
+  params: Promise<{ slug?: string[] }>;
+};
+
+export const dynamic = "force-static";
+
+// translated pages share the image of the english page
+export async function GET(_request: Request, props: RouteProps) {
+  const { slug = [] } = await props.params;
+  const pathName = slug.join("/");
+  let frontmatter: BaseMdxFrontmatter | undefined =
+    await getDocsSection(pathName);
+  if (!frontmatter) {
+    const res = await getDocsForSlug(pathName);
+    if (!res || !isPublished(res.frontmatter)) {
+      return new Response("Not found", { status: 404 });
+    }
+    frontmatter = res.frontmatter;
+  }
+
+  const version = findVersion(`/${pathName}`, VERSIONS);
+  const sections = getSectionTitles(
+    `/${pathName}`.slice(version.prefix.length),
+    version.routes,
+  );
+  return await renderDocsImage({
+    title: frontmatter.title,
+    description: frontmatter.description,
+    sections: version.latest ? sections : [version.name, ...sections],
+  });
+}
+
+export function generateStaticParams() {
+  return [...page_routes, ...section_routes].map((item) => ({
+    slug: item.href.split("/").slice(1),
+  }));
+}
@@ -0,0 +1,21 @@
+import Playground from "@/components/playground";
+import { Metadata } from "next";
+
+export const metadata: Metadata = {
+  title: "Playground",
+};
+
+export default function PlaygroundPage() {
+  return (
+    <div className="w-full mx-auto flex flex-col gap-1 sm:min-h-[91vh] min-h-[88vh] pt-2">
+      <div className="mb-7 flex flex-col gap-2">
+        <h1 className="sm:text-3xl text-2xl font-extrabold">Playground</h1>
+        <p className="text-muted-foreground sm:text-[16.5px] text-[14.5px]">
+          Try go-errors in the browser. Requests to /api/... are answered
+          locally, and the share button copies a link to your code.
+        </p>
+      </div>
+      <Playground />
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import { getPreviewRedirect } from "@/lib/preview";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  (await draftMode()).disable();
+  redirect(getPreviewRedirect(searchParams.get("path")));
+}
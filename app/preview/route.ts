@@ -0,0 +1,20 @@
+import { draftMode } from "next/headers";
+import { redirect } from "next/navigation";
+import { getPreviewRedirect } from "@/lib/preview";
+
+// /preview?secret=<PREVIEW_SECRET>&path=/docs/some-draft
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const secret = process.env.PREVIEW_SECRET;
+  if (!secret) {
+    return new Response("Preview isn't configured, set PREVIEW_SECRET", {
+      status: 404,
+    });
+  }
+  if (searchParams.get("secret") != secret) {
+    return new Response("Invalid preview secret", { status: 401 });
+  }
+
+  (await draftMode()).enable();
+  redirect(getPreviewRedirect(searchParams.get("path")));
+}
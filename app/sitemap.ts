@@ -0,0 +1,78 @@
+import { MetadataRoute } from "next";
+import { getLastModified } from "@/lib/git";
+import { DEFAULT_LOCALE, LOCALES, localizeHref } from "@/lib/i18n";
+import {
+  fileExists,
+  getAllBlogs,
+  getBlogFilePath,
+  getDocsContentPath,
+  getDocsDocument,
+} from "@/lib/markdown";
+import { DocsVersion, VERSIONS } from "@/lib/routes-config";
+import { absoluteUrl } from "@/lib/site";
+import { isPublished } from "@/lib/frontmatter";
+
+type SitemapEntry = MetadataRoute.Sitemap[number];
+
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const docs = await Promise.all(
+    VERSIONS.flatMap((version) =>
+      version.pages.flatMap((page) =>
+        LOCALES.map((locale) => getDocsEntry(page.href, locale.code, version)),
+      ),
+    ),
+  );
+  // generated section pages have no file of their own
+  const sections = VERSIONS.flatMap((version) =>
+    version.sections.map((section) => ({
+      url: absoluteUrl(`/docs${section.href}`),
+      priority: getPriority(
+        section.href.slice(version.prefix.length),
+        version.latest,
+      ),
+    })),
+  );
+  const blogs = await Promise.all(
+    (await getAllBlogs()).map(async (blog) => {
+      if (blog.noindex) return undefined;
+      const filePath = (await getBlogFilePath(blog.slug))!;
+      return {
+        url: absoluteUrl(`/blog/${blog.slug}`),
+        lastModified: await getLastModified(filePath),
+        priority: 0.6,
+      };
+    }),
+  );
+
+  return [
+    { url: absoluteUrl("/"), priority: 1 },
+    { url: absoluteUrl("/blog"), priority: 0.7 },
+    ...docs,
+    ...sections,
+    ...blogs,
+  ].filter((it) => !!it);
+}
+
+// translated pages are only listed when the translation exists
+async function getDocsEntry(
+  href: string,
+  locale: string,
+  version: DocsVersion,
+): Promise<SitemapEntry | undefined> {
+  const filePath = getDocsContentPath(href, locale);
+  if (locale != DEFAULT_LOCALE && !(await fileExists(filePath))) return;
+  const { frontmatter } = await getDocsDocument(filePath);
+  if (!isPublished(frontmatter) || frontmatter.noindex) return;
+  return {
+    url: absoluteUrl(localizeHref(`/docs${href}`, locale)),
+    lastModified: await getLastModified(filePath),
+    priority: getPriority(href.slice(version.prefix.length), version.latest),
+  };
+}
+
+// top level sections rank highest, older versions are hinted below the latest
+function getPriority(href: string, latest: boolean) {
+  const depth = href.split("/").filter((it) => it != "").length;
+  const priority = Math.max(0.3, 1 - depth * 0.1);
+  return Number((latest ? priority : priority / 2).toFixed(1));
+}
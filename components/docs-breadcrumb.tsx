@@ -1,47 +1,137 @@
+import Link from "next/link";
 import {
   Breadcrumb,
+  BreadcrumbEllipsis,
   BreadcrumbItem,
   BreadcrumbLink,
   BreadcrumbList,
   BreadcrumbPage,
   BreadcrumbSeparator,
 } from "@/components/ui/breadcrumb";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Fragment } from "react";
+import { VERSIONS } from "@/lib/routes-config";
+import { getMessages, localizeHref } from "@/lib/i18n";
+import { absoluteUrl } from "@/lib/site";
+import { findVersion, getRouteTrail } from "@/lib/utils";
+
+// longer paths keep the first and the last two crumbs, the rest go into a dropdown
+const MAX_CRUMBS = 4;
+
+type Crumb = { title: string; href: string };
+
+// titles come from the route tree (lib/routes-config.ts), noLink sections
+// link to their section page
+export default function DocsBreadcrumb({
+  paths,
+  title,
+  locale,
+}: {
+  paths: string[];
+  title: string; // of the current page, used when it isn't in the tree
+  locale?: string;
+}) {
+  const crumbs = getCrumbs(paths, title).map((it) => ({
+    ...it,
+    href: localizeHref(it.href, locale),
+  }));
+  const current = crumbs[crumbs.length - 1];
+  const ancestors = crumbs.slice(0, -1);
+  const collapsed =
+    crumbs.length > MAX_CRUMBS ? ancestors.slice(1, -1) : undefined;
+  const visible = collapsed
+    ? [ancestors[0], ancestors[ancestors.length - 1]]
+    : ancestors;
 
-export default function DocsBreadcrumb({ paths }: { paths: string[] }) {
   return (
     <div className="pb-5">
       <Breadcrumb>
         <BreadcrumbList>
-          <BreadcrumbItem>
-            <BreadcrumbLink>Docs</BreadcrumbLink>
-          </BreadcrumbItem>
-          {paths.map((path, index) => (
-            <Fragment key={path}>
-              <BreadcrumbSeparator />
+          {visible.map((crumb, index) => (
+            <Fragment key={crumb.href}>
+              {index > 0 && <BreadcrumbSeparator />}
+              {index == 1 && collapsed && (
+                <>
+                  <BreadcrumbItem>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger
+                        className="flex items-center"
+                        aria-label={getMessages(locale).showFullPath}
+                      >
+                        <BreadcrumbEllipsis className="h-4 w-4" />
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="start">
+                        {collapsed.map((it) => (
+                          <DropdownMenuItem key={it.href} asChild>
+                            <Link href={it.href}>{it.title}</Link>
+                          </DropdownMenuItem>
+                        ))}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </BreadcrumbItem>
+                  <BreadcrumbSeparator />
+                </>
+              )}
               <BreadcrumbItem>
-                {index < paths.length - 1 ? (
-                  <BreadcrumbLink className="a">
-                    {toTitleCase(path)}
-                  </BreadcrumbLink>
-                ) : (
-                  <BreadcrumbPage className="b">
-                    {toTitleCase(path)}
-                  </BreadcrumbPage>
-                )}
+                <BreadcrumbLink asChild>
+                  <Link href={crumb.href}>{crumb.title}</Link>
+                </BreadcrumbLink>
               </BreadcrumbItem>
             </Fragment>
           ))}
+          {ancestors.length > 0 && <BreadcrumbSeparator />}
+          <BreadcrumbItem>
+            <BreadcrumbPage>{current.title}</BreadcrumbPage>
+          </BreadcrumbItem>
         </BreadcrumbList>
       </Breadcrumb>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: getJsonLd(crumbs) }}
+      />
     </div>
   );
 }
 
-function toTitleCase(input: string): string {
-  const words = input.split("-");
-  const capitalizedWords = words.map(
-    (word) => word.charAt(0).toUpperCase() + word.slice(1)
+// Docs › v1 › Usage Guides › Basic Usage Patterns
+function getCrumbs(paths: string[], title: string) {
+  const path = `/${paths.join("/")}`;
+  const version = findVersion(path, VERSIONS);
+  const rest = path.slice(version.prefix.length);
+  const crumbs: Crumb[] = [{ title: "Docs", href: "/docs" }];
+  if (!version.latest) {
+    crumbs.push({ title: version.name, href: `/docs${version.prefix}` });
+  }
+  const trail = getRouteTrail(rest, version.routes);
+  crumbs.push(
+    ...trail.map((it) => ({
+      title: it.title,
+      href: `/docs${version.prefix}${it.href}`,
+    })),
   );
-  return capitalizedWords.join(" ");
+  // hidden and unpublished pages aren't in the tree
+  if (trail.length < rest.split("/").filter((it) => it != "").length) {
+    crumbs.push({ title, href: `/docs${path}` });
+  }
+  return crumbs;
+}
+
+function getJsonLd(crumbs: Crumb[]) {
+  const data = {
+    "@context": "https://schema.org",
+    "@type": "BreadcrumbList",
+    itemListElement: crumbs.map((crumb, index) => ({
+      "@type": "ListItem",
+      position: index + 1,
+      name: crumb.title,
+      item: absoluteUrl(crumb.href),
+    })),
+  };
+  // keeps a title containing </script> from ending the tag
+  return JSON.stringify(data).replace(/</g, "\\u003c");
 }
@@ -1,19 +1,28 @@
 "use client";
 
-import { ROUTES } from "@/lib/routes-config";
+import type { DocsVersion } from "@/lib/routes-config";
+import { findVersion } from "@/lib/utils";
+import { localizeHref, splitLocale } from "@/lib/i18n";
 import SubLink from "./sublink";
 import { usePathname } from "next/navigation";
 
-export default function DocsMenu({ isSheet = false }) {
-  const pathname = usePathname();
-  if (!pathname.startsWith("/docs")) return null;
+export default function DocsMenu({
+  versions,
+  isSheet = false,
+}: {
+  versions: DocsVersion[];
+  isSheet?: boolean;
+}) {
+  const { locale, path } = splitLocale(usePathname());
+  if (!path.startsWith("/docs")) return null;
+  const { prefix, routes } = findVersion(path.replace(/^\/docs/, ""), versions);
 
   return (
     <div className="flex flex-col gap-3.5 mt-5 pr-2 pb-6 sm:text-base text-[14.5px]">
-      {ROUTES.map((item, index) => {
+      {routes.map((item, index) => {
         const modifiedItems = {
           ...item,
-          href: `/docs${item.href}`,
+          href: localizeHref(`/docs${prefix}${item.href}`, locale),
           level: 0,
           isSheet,
         };
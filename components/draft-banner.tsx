@@ -0,0 +1,45 @@
+import Link from "next/link";
+import { EyeOffIcon } from "lucide-react";
+import { getLocale, getMessages } from "@/lib/i18n";
+import { getDisablePreviewHref } from "@/lib/preview";
+
+// shown on unpublished pages, which are only rendered in draft mode
+export default function DraftBanner({
+  exitPath,
+  publishAt,
+  locale,
+}: {
+  exitPath: string; // the page itself is a 404 once draft mode is off
+  publishAt?: string;
+  locale?: string;
+}) {
+  const messages = getMessages(locale);
+  return (
+    <div className="flex items-center gap-2.5 border rounded-md px-4 py-3 mb-6 text-sm dark:bg-sky-950 bg-sky-100 border-sky-200 dark:border-sky-900">
+      <EyeOffIcon className="w-4 h-4 min-w-4" />
+      <p>
+        <span className="font-semibold">{messages.draft}</span>{" "}
+        {messages.draftNotice}{" "}
+        {publishAt && (
+          <>
+            {messages.scheduled}{" "}
+            <time dateTime={publishAt} className="font-code">
+              {new Date(publishAt).toLocaleString(getLocale(locale).intl, {
+                dateStyle: "medium",
+                timeStyle: publishAt.includes("T") ? "short" : undefined,
+              })}
+            </time>
+            .{" "}
+          </>
+        )}
+        <Link
+          href={getDisablePreviewHref(exitPath)}
+          prefetch={false}
+          className="underline underline-offset-2"
+        >
+          {messages.exitPreview}
+        </Link>
+      </p>
+    </div>
+  );
+}
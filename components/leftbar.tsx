@@ -12,12 +12,14 @@ import { FooterButtons } from "./footer";
 import { DialogTitle } from "./ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import DocsMenu from "./docs-menu";
+import { VERSIONS } from "@/lib/routes-config";
+import { SearchButton } from "./search";
 
 export function Leftbar() {
   return (
     <aside className="md:flex hidden flex-[1.5] min-w-[238px] sticky top-16 flex-col h-[93.75vh] overflow-y-auto">
       <ScrollArea className="py-4">
-        <DocsMenu />
+        <DocsMenu versions={VERSIONS} />
       </ScrollArea>
     </aside>
   );
@@ -39,11 +41,16 @@ export function SheetLeftbar() {
           </SheetClose>
         </SheetHeader>
         <div className="flex flex-col gap-4 overflow-y-auto">
+          <div className="mx-2 px-5">
+            <SheetClose asChild>
+              <SearchButton className="flex w-full" />
+            </SheetClose>
+          </div>
           <div className="flex flex-col gap-2.5 mt-3 mx-2 px-5">
             <NavMenu isSheet />
           </div>
           <div className="ml-2 pl-5">
-            <DocsMenu isSheet />
+            <DocsMenu versions={VERSIONS} isSheet />
           </div>
           <div className="p-6 pb-4 flex gap-2.5">
             <FooterButtons />
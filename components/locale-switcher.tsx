@@ -0,0 +1,42 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import { LanguagesIcon } from "lucide-react";
+import { LOCALES, localizeHref, splitLocale } from "@/lib/i18n";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// only docs are translated, so the switcher is hidden everywhere else
+export function LocaleSwitcher() {
+  const { locale, path } = splitLocale(usePathname());
+  const router = useRouter();
+  if (!path.startsWith("/docs")) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <LanguagesIcon className="h-[1.1rem] w-[1.1rem]" />
+          <span className="sr-only">Change language</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {LOCALES.map((it) => (
+          <DropdownMenuItem
+            key={it.code}
+            dir={it.dir}
+            className={it.code == locale ? "font-semibold" : ""}
+            onClick={() => router.push(localizeHref(path, it.code))}
+          >
+            {it.name}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
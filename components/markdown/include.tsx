@@ -0,0 +1,7 @@
+// partials are expanded into the source before it is compiled (lib/includes.ts),
+// an <Include> that gets here wasn't on a line of its own
+export default function Include({ file }: { file?: string }) {
+  throw new Error(
+    `<Include file="${file}" /> isn't expanded, it has to be alone on its line`,
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import NextLink from "next/link";
+import {
+  ComponentProps,
+  FocusEvent,
+  MouseEvent,
+  useEffect,
+  useId,
+  useRef,
+  useState,
+} from "react";
+
+// hovering this long opens the preview, passing over a link doesn't
+const DELAY = 400;
+
+type Position = { top: number; left: number };
+
+type LinkPreviewProps = ComponentProps<"a"> & {
+  href: string;
+  title: string;
+  description: string;
+};
+
+// title and description of the linked page, shown below the link while it is
+// hovered or focused. fixed positioning keeps it from being clipped like the
+// twoslash popover, so it is closed when the page scrolls
+export default function LinkPreview({
+  href,
+  title,
+  description,
+  ...props
+}: LinkPreviewProps) {
+  const id = useId();
+  const timer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const [position, setPosition] = useState<Position>();
+
+  function open(event: MouseEvent | FocusEvent) {
+    const rect = event.currentTarget.getBoundingClientRect();
+    clearTimeout(timer.current);
+    timer.current = setTimeout(
+      () => setPosition({ top: rect.bottom + 6, left: rect.left }),
+      DELAY,
+    );
+  }
+
+  function close() {
+    clearTimeout(timer.current);
+    setPosition(undefined);
+  }
+
+  useEffect(() => {
+    if (!position) return;
+    window.addEventListener("scroll", close, { once: true, passive: true });
+    return () => window.removeEventListener("scroll", close);
+  }, [position]);
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  return (
+    <>
+      <NextLink
+        {...props}
+        href={href}
+        aria-describedby={position ? id : undefined}
+        onMouseEnter={open}
+        onMouseLeave={close}
+        onFocus={open}
+        onBlur={close}
+      />
+      {position && (
+        <span
+          id={id}
+          role="tooltip"
+          className="not-prose fixed z-50 flex w-72 max-w-[90vw] flex-col gap-1 rounded-md border bg-popover p-3 text-sm text-popover-foreground shadow-md pointer-events-none"
+          style={{ top: position.top, left: position.left }}
+        >
+          <span className="font-medium">{title}</span>
+          <span className="text-muted-foreground line-clamp-3">
+            {description}
+          </span>
+        </span>
+      )}
+    </>
+  );
+}
@@ -1,14 +1,67 @@
 import NextLink from "next/link";
 import { ComponentProps } from "react";
+import { ExternalLinkIcon } from "lucide-react";
+import { getMessages, localizeHref } from "@/lib/i18n";
+import { getLinkPreview } from "@/lib/markdown";
+import { LINK_PREVIEWS } from "@/lib/site";
+import LinkPreview from "./link-preview";
 
-export default function Link({ href, ...props }: ComponentProps<"a">) {
+// other schemes like mailto: are left to the browser
+const SCHEME = /^[a-z][a-z\d+.-]*:/i;
+const EXTERNAL = /^(https?:)?\/\//i;
+const DOCS = /^\/docs(?=[/?#]|$)/;
+
+type LinkProps = ComponentProps<"a"> & { locale?: string };
+
+// external links open in a new tab, internal ones (relative, /docs/..., #hash)
+// navigate client side and can preview the page they point to
+export default async function Link({
+  href,
+  locale,
+  children,
+  ...props
+}: LinkProps) {
   if (!href) return null;
+
+  if (EXTERNAL.test(href)) {
+    return (
+      <a {...props} href={href} target="_blank" rel="noopener noreferrer">
+        {children}
+        <ExternalLinkIcon
+          aria-hidden
+          className="inline w-3.5 h-3.5 ms-0.5 align-text-top"
+        />
+        <span className="sr-only"> ({getMessages(locale).opensInNewTab})</span>
+      </a>
+    );
+  }
+  if (SCHEME.test(href)) {
+    return (
+      <a {...props} href={href}>
+        {children}
+      </a>
+    );
+  }
+
+  // docs links on a translated page stay in its language
+  if (DOCS.test(href)) href = localizeHref(href, locale);
+
+  // relative links depend on the page they are on, so only absolute ones
+  // are looked up
+  const preview =
+    LINK_PREVIEWS && href.startsWith("/")
+      ? await getLinkPreview(href)
+      : undefined;
+  if (!preview) {
+    return (
+      <NextLink {...props} href={href}>
+        {children}
+      </NextLink>
+    );
+  }
   return (
-    <NextLink
-      href={href}
-      {...props}
-      target="_blank"
-      rel="noopener noreferrer"
-    />
+    <LinkPreview {...props} href={href} {...preview}>
+      {children}
+    </LinkPreview>
   );
 }
@@ -1,18 +1,41 @@
 import { ComponentProps } from "react";
+import Link from "next/link";
+import { PlayIcon } from "lucide-react";
+import { Button } from "../ui/button";
 import Copy from "./copy";
+import TwoslashPopover from "./twoslash-popover";
+import { getPlaygroundHref } from "@/lib/playground";
+
+const PLAYGROUND_LANGS = /\blanguage-(ts|typescript)\b/;
 
 export default function Pre({
   children,
   raw,
+  twoslash,
   ...rest
-}: ComponentProps<"pre"> & { raw?: string }) {
+}: ComponentProps<"pre"> & { raw?: string; twoslash?: string }) {
+  const pre = <pre {...rest}>{children}</pre>;
+  const playground = raw && PLAYGROUND_LANGS.test(rest.className ?? "");
   return (
     <div className="my-5 relative">
-      <div className="absolute top-3 right-2.5 z-10 sm:block hidden">
+      <div className="absolute top-3 right-2.5 z-10 sm:flex hidden gap-1.5">
+        {playground && (
+          <Button
+            variant="secondary"
+            className="border"
+            size="xs"
+            title="Open in playground"
+            asChild
+          >
+            <Link href={getPlaygroundHref(raw)}>
+              <PlayIcon className="w-3 h-3" />
+            </Link>
+          </Button>
+        )}
         <Copy content={raw!} />
       </div>
       <div className="relative">
-        <pre {...rest}>{children}</pre>
+        {twoslash == undefined ? pre : <TwoslashPopover>{pre}</TwoslashPopover>}
       </div>
     </div>
   );
@@ -0,0 +1,40 @@
+"use client";
+
+import { MouseEvent, PropsWithChildren, useState } from "react";
+
+type Popover = { text: string; top: number; left: number };
+
+// shows the type of the hovered identifier in blocks rendered by lib/twoslash.ts,
+// fixed positioning keeps it from being clipped by the scrolling pre
+export default function TwoslashPopover({ children }: PropsWithChildren) {
+  const [popover, setPopover] = useState<Popover>();
+
+  function handleMouseOver(event: MouseEvent) {
+    const target = (event.target as HTMLElement).closest("[data-twoslash]");
+    if (!target) return setPopover(undefined);
+    const rect = target.getBoundingClientRect();
+    setPopover({
+      text: target.getAttribute("data-twoslash") ?? "",
+      top: rect.bottom + 4,
+      left: rect.left,
+    });
+  }
+
+  return (
+    <div
+      onMouseOver={handleMouseOver}
+      onMouseLeave={() => setPopover(undefined)}
+    >
+      {children}
+      {popover && (
+        <div
+          role="tooltip"
+          className="fixed z-50 max-w-[min(90vw,36rem)] whitespace-pre-wrap rounded-md border bg-popover px-2.5 py-1.5 font-code text-xs text-popover-foreground shadow-md pointer-events-none"
+          style={{ top: popover.top, left: popover.left }}
+        >
+          {popover.text}
+        </div>
+      )}
+    </div>
+  );
+}
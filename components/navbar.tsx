@@ -1,11 +1,14 @@
 import { ModeToggle } from "@/components/theme-toggle";
+import { LocaleSwitcher } from "@/components/locale-switcher";
 import { GithubIcon, CommandIcon } from "lucide-react";
 import Link from "next/link";
 import { buttonVariants } from "./ui/button";
 import Anchor from "./anchor";
 import { SheetLeftbar } from "./leftbar";
-import { page_routes } from "@/lib/routes-config";
+import { page_routes, ROUTES, VERSIONS } from "@/lib/routes-config";
 import { SheetClose } from "@/components/ui/sheet";
+import Search from "./search";
+import VersionSwitcher from "./version-switcher";
 
 export const NAVLINKS = [
   {
@@ -24,6 +27,10 @@ export const NAVLINKS = [
     title: "Guides",
     href: "/docs/usage-guides",
   },
+  {
+    title: "Playground",
+    href: "/playground",
+  },
   {
     title: "Blog",
     href: "/blog",
@@ -47,6 +54,8 @@ export function Navbar() {
         </div>
 
         <div className="flex items-center justify-end gap-2">
+          <VersionSwitcher versions={VERSIONS} />
+          <Search routes={ROUTES} />
           <Link
             href="https://github.com/ashkansamadiyan/go-style-errors"
             target="_blank"
@@ -57,6 +66,7 @@ export function Navbar() {
           >
             <GithubIcon className="h-[1.1rem] w-[1.1rem]" />
           </Link>
+          <LocaleSwitcher />
           <ModeToggle />
         </div>
       </div>
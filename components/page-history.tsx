@@ -0,0 +1,67 @@
+import Link from "next/link";
+import { ClockIcon, PencilIcon, TriangleAlertIcon } from "lucide-react";
+import { getLastCommit, getRepoPath } from "@/lib/git";
+import { getLocale, getMessages } from "@/lib/i18n";
+import { OUTDATED_AFTER_DAYS, REPO_BRANCH, REPO_URL } from "@/lib/site";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// edit link and last commit of the content file, read when the page is built
+export default async function PageHistory({
+  filePath,
+  locale,
+}: {
+  filePath: string;
+  locale?: string;
+}) {
+  const messages = getMessages(locale);
+  const commit = await getLastCommit(filePath);
+  const isOutdated =
+    !!commit && Date.now() - commit.date.getTime() > OUTDATED_AFTER_DAYS * DAY;
+
+  return (
+    <div className="not-prose flex flex-col gap-3 border-t pt-6 mt-10 text-sm text-muted-foreground">
+      {isOutdated && (
+        <p className="flex items-center gap-2 text-orange-600 dark:text-orange-400">
+          <TriangleAlertIcon className="w-4 h-4 min-w-4" />
+          {messages.outdated}
+        </p>
+      )}
+      <div className="flex flex-wrap items-center justify-between gap-x-6 gap-y-2">
+        <Link
+          href={`${REPO_URL}/edit/${REPO_BRANCH}/${getRepoPath(filePath)}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 hover:text-foreground"
+        >
+          <PencilIcon className="w-4 h-4" />
+          {messages.editPage}
+        </Link>
+        {commit && (
+          <p className="flex flex-wrap items-center gap-x-1.5">
+            <ClockIcon className="w-4 h-4 me-0.5" />
+            <span>{messages.lastUpdated}</span>
+            <time dateTime={commit.date.toISOString()}>
+              {commit.date.toLocaleDateString(getLocale(locale).intl, {
+                month: "short",
+                day: "numeric",
+                year: "numeric",
+              })}
+            </time>
+            <span>·</span>
+            <span>{commit.author}</span>
+            <span>·</span>
+            <Link
+              href={`${REPO_URL}/commit/${commit.hash}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-code hover:text-foreground"
+            >
+              {commit.shortHash}
+            </Link>
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,17 @@ import { getPreviousNext } from "@/lib/markdown";
 import { ChevronLeftIcon, ChevronRightIcon } from "lucide-react";
 import Link from "next/link";
 import { buttonVariants } from "./ui/button";
+import { getMessages, localizeHref } from "@/lib/i18n";
 
-export default function Pagination({ pathname }: { pathname: string }) {
+export default function Pagination({
+  pathname,
+  locale,
+}: {
+  pathname: string;
+  locale?: string;
+}) {
   const res = getPreviousNext(pathname);
+  const messages = getMessages(locale);
 
   return (
     <div className="grid grid-cols-2 flex-grow sm:py-10 py-7 gap-3">
@@ -14,15 +22,15 @@ export default function Pagination({ pathname }: { pathname: string }) {
             className={buttonVariants({
               variant: "outline",
               className:
-                "no-underline w-full flex flex-col pl-3 !py-8 !items-start",
+                "no-underline w-full flex flex-col ps-3 !py-8 !items-start",
             })}
-            href={`/docs${res.prev.href}`}
+            href={localizeHref(`/docs${res.prev.href}`, locale)}
           >
             <span className="flex items-center text-muted-foreground text-xs">
-              <ChevronLeftIcon className="w-[1rem] h-[1rem] mr-1" />
-              Previous
+              <ChevronLeftIcon className="w-[1rem] h-[1rem] me-1 rtl:rotate-180" />
+              {messages.previous}
             </span>
-            <span className="mt-1 ml-1">{res.prev.title}</span>
+            <span className="mt-1 ms-1">{res.prev.title}</span>
           </Link>
         )}
       </div>
@@ -32,15 +40,15 @@ export default function Pagination({ pathname }: { pathname: string }) {
             className={buttonVariants({
               variant: "outline",
               className:
-                "no-underline w-full flex flex-col pr-3 !py-8 !items-end",
+                "no-underline w-full flex flex-col pe-3 !py-8 !items-end",
             })}
-            href={`/docs${res.next.href}`}
+            href={localizeHref(`/docs${res.next.href}`, locale)}
           >
             <span className="flex items-center text-muted-foreground text-xs">
-              Next
-              <ChevronRightIcon className="w-[1rem] h-[1rem] ml-1" />
+              {messages.next}
+              <ChevronRightIcon className="w-[1rem] h-[1rem] ms-1 rtl:rotate-180" />
             </span>
-            <span className="mt-1 mr-1">{res.next.title}</span>
+            <span className="mt-1 me-1">{res.next.title}</span>
           </Link>
         )}
       </div>
@@ -0,0 +1,232 @@
+"use client";
+
+import { KeyboardEvent, useEffect, useRef, useState } from "react";
+import { transform } from "sucrase";
+import { CheckIcon, PlayIcon, Share2Icon, Trash2Icon } from "lucide-react";
+import { Button } from "./ui/button";
+import { cn } from "@/lib/utils";
+import { MOCK_API_NOT_FOUND, MOCK_API_ROUTES } from "@/lib/mock-api";
+import {
+  PLAYGROUND_LIBRARY_URL,
+  PLAYGROUND_RUNTIME_URL,
+  getCodeFromHash,
+  getPlaygroundHref,
+} from "@/lib/playground";
+
+const TIMEOUT = 5000;
+
+const DEFAULT_CODE = `import { goSync, goFetch } from "go-errors";
+
+const result = goSync(() => JSON.parse('{ "ok": true }'));
+console.log(result);
+
+const failed = goSync(() => JSON.parse("{"));
+console.log(failed);
+
+const [user, err] = await goFetch<{ name: string }>("/api/users/1");
+console.log(user, err);
+`;
+
+// the runtime script is loaded from the same origin, the sandbox without
+// allow-same-origin keeps the code away from the page
+const RUNTIME_DOCUMENT = `<!doctype html><script src="${PLAYGROUND_RUNTIME_URL}"></script>`;
+
+type OutputPart = { text: string; kind?: "ok" | "err" };
+type OutputLine = { level: string; parts: OutputPart[] };
+
+let library: Promise<string | null> | undefined;
+
+// null when go-errors wasn't bundled (see scripts/build-playground.ts)
+function loadLibrary() {
+  library ??= fetch(PLAYGROUND_LIBRARY_URL)
+    .then((res) => (res.ok ? res.text() : null))
+    .catch(() => null);
+  return library;
+}
+
+export default function Playground() {
+  const [code, setCode] = useState(DEFAULT_CODE);
+  const [output, setOutput] = useState<OutputLine[]>([]);
+  const [runId, setRunId] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [isShared, setIsShared] = useState(false);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  useEffect(() => {
+    const shared = getCodeFromHash(window.location.hash);
+    if (shared != undefined) setCode(shared);
+  }, []);
+
+  useEffect(() => {
+    if (!runId) return;
+    let compiled: string;
+    try {
+      compiled = transform(code, {
+        transforms: ["typescript", "imports"],
+      }).code;
+    } catch (err) {
+      setOutput([{ level: "error", parts: [{ text: String(err) }] }]);
+      setRunning(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      append({ level: "error", parts: [{ text: "Timed out" }] });
+      setRunning(false);
+    }, TIMEOUT);
+
+    async function handleMessage(event: MessageEvent) {
+      if (event.source !== frameRef.current?.contentWindow) return;
+      const { data } = event;
+      if (data.type == "ready") {
+        frameRef.current?.contentWindow?.postMessage(
+          {
+            code: compiled,
+            library: await loadLibrary(),
+            routes: MOCK_API_ROUTES,
+            notFound: MOCK_API_NOT_FOUND,
+          },
+          "*",
+        );
+      }
+      if (data.type == "log") append({ level: data.level, parts: data.parts });
+      if (data.type == "done") {
+        clearTimeout(timeout);
+        setRunning(false);
+      }
+    }
+
+    window.addEventListener("message", handleMessage);
+    return () => {
+      clearTimeout(timeout);
+      window.removeEventListener("message", handleMessage);
+    };
+    // every run gets a new iframe, only the run id starts one
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runId]);
+
+  function append(line: OutputLine) {
+    setOutput((prev) => [...prev, line]);
+  }
+
+  function run() {
+    setOutput([]);
+    setRunning(true);
+    setRunId((prev) => prev + 1);
+    window.history.replaceState(null, "", getPlaygroundHref(code));
+  }
+
+  async function share() {
+    const href = getPlaygroundHref(code);
+    window.history.replaceState(null, "", href);
+    await navigator.clipboard.writeText(window.location.href);
+    setIsShared(true);
+    setTimeout(() => setIsShared(false), 2000);
+  }
+
+  function handleKeyDown(event: KeyboardEvent<HTMLTextAreaElement>) {
+    if (event.key == "Enter" && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      run();
+      return;
+    }
+    if (event.key == "Tab") {
+      event.preventDefault();
+      const textarea = event.currentTarget;
+      const { selectionStart, selectionEnd } = textarea;
+      setCode(`${code.slice(0, selectionStart)}  ${code.slice(selectionEnd)}`);
+      requestAnimationFrame(() => {
+        textarea.setSelectionRange(selectionStart + 2, selectionStart + 2);
+      });
+    }
+  }
+
+  return (
+    <div className="grid lg:grid-cols-2 grid-cols-1 gap-4">
+      <div className="flex flex-col border rounded-md overflow-hidden">
+        <div className="flex items-center gap-2 border-b px-3 py-2">
+          <span className="text-sm font-medium font-code me-auto">
+            index.ts
+          </span>
+          <Button size="xs" variant="outline" onClick={share}>
+            {isShared ? (
+              <CheckIcon className="w-3.5 h-3.5 me-1" />
+            ) : (
+              <Share2Icon className="w-3.5 h-3.5 me-1" />
+            )}
+            Share
+          </Button>
+          <Button size="xs" onClick={run} disabled={running}>
+            <PlayIcon className="w-3.5 h-3.5 me-1" />
+            Run
+          </Button>
+        </div>
+        <textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={handleKeyDown}
+          spellCheck={false}
+          aria-label="Code"
+          dir="ltr"
+          className="min-h-[60vh] w-full resize-none bg-background p-4 font-code text-sm leading-6 outline-none"
+        />
+      </div>
+      <div className="flex flex-col border rounded-md overflow-hidden">
+        <div className="flex items-center gap-2 border-b px-3 py-2">
+          <span className="text-sm font-medium me-auto">Console</span>
+          <Button size="xs" variant="ghost" onClick={() => setOutput([])}>
+            <Trash2Icon className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+        <div className="min-h-[60vh] p-4 font-code text-sm flex flex-col gap-1.5">
+          {!output.length && (
+            <p className="text-muted-foreground">
+              {running ? "Running…" : "Press Run or Ctrl+Enter"}
+            </p>
+          )}
+          {output.map((line, index) => (
+            <div
+              key={index}
+              className={cn(
+                "flex flex-wrap gap-2 whitespace-pre-wrap break-all",
+                line.level == "error" && "text-red-600 dark:text-red-400",
+                line.level == "warn" && "text-orange-600 dark:text-orange-400",
+              )}
+            >
+              {line.parts.map((part, index) => (
+                <OutputValue key={index} {...part} />
+              ))}
+            </div>
+          ))}
+        </div>
+        {runId > 0 && (
+          <iframe
+            key={runId}
+            ref={frameRef}
+            sandbox="allow-scripts"
+            srcDoc={RUNTIME_DOCUMENT}
+            title="Playground runtime"
+            className="hidden"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// results are shown as Ok(value) or Err(error)
+function OutputValue({ text, kind }: OutputPart) {
+  if (!kind) return <span>{text}</span>;
+  return (
+    <span
+      className={cn(
+        "rounded-md border px-1.5",
+        kind == "ok"
+          ? "border-green-500/40 bg-green-500/10 text-green-700 dark:text-green-400"
+          : "border-red-500/40 bg-red-500/10 text-red-600 dark:text-red-400",
+      )}
+    >
+      {kind == "ok" ? "Ok" : "Err"}({text})
+    </span>
+  );
+}
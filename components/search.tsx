@@ -0,0 +1,280 @@
+"use client";
+
+import { ComponentProps, useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { ClockIcon, FileIcon, SearchIcon } from "lucide-react";
+import type { EachRoute } from "@/lib/routes-config";
+import { advanceSearch, cn, getSectionTitles } from "@/lib/utils";
+import {
+  loadSearchIndex,
+  SearchHit,
+  SearchIndex,
+  searchIndex,
+  SnippetPart,
+} from "@/lib/search-index";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+const OPEN_EVENT = "docs-search:open";
+const RECENT_KEY = "docs-search:recent";
+const MAX_RECENT = 5;
+
+type SearchItem = { title: string; href: string; snippet?: SnippetPart[] };
+type SearchGroup = { label: string; items: SearchItem[] };
+
+export function openSearch() {
+  window.dispatchEvent(new Event(OPEN_EVENT));
+}
+
+export default function Search({ routes }: { routes: EachRoute[] }) {
+  const router = useRouter();
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [recent, setRecent] = useState<SearchItem[]>([]);
+  const [index, setIndex] = useState<SearchIndex>();
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setRecent(readRecent());
+
+    const handleOpen = () => setIsOpen(true);
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const isShortcut =
+        (event.ctrlKey || event.metaKey) && event.key.toLowerCase() == "k";
+      const isSlash = event.key == "/" && !isTyping(event.target);
+      if (!isShortcut && !isSlash) return;
+      event.preventDefault();
+      setIsOpen(true);
+    };
+
+    window.addEventListener(OPEN_EVENT, handleOpen);
+    window.addEventListener("keydown", handleKeyDown);
+    return () => {
+      window.removeEventListener(OPEN_EVENT, handleOpen);
+      window.removeEventListener("keydown", handleKeyDown);
+    };
+  }, []);
+
+  // the full-text index is only fetched once the dialog is opened
+  useEffect(() => {
+    if (!isOpen || index) return;
+    loadSearchIndex()
+      .then(setIndex)
+      .catch(() => setIndex(undefined));
+  }, [isOpen, index]);
+
+  const groups = useMemo(() => {
+    const trimmed = query.trim();
+    // title-only search until the index has loaded
+    if (trimmed && index) return groupHits(searchIndex(index, trimmed));
+    const results = groupResults(advanceSearch(trimmed, routes), routes);
+    if (trimmed || !recent.length) return results;
+    return [{ label: "Recent", items: recent }, ...results];
+  }, [query, recent, routes, index]);
+
+  const flatItems = useMemo(() => groups.flatMap((it) => it.items), [groups]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  function handleOpenChange(open: boolean) {
+    if (!open) setQuery("");
+    setIsOpen(open);
+  }
+
+  function navigate({ title, href }: SearchItem) {
+    const item = { title, href };
+    const next = [item, ...recent.filter((it) => it.href != item.href)].slice(
+      0,
+      MAX_RECENT,
+    );
+    setRecent(next);
+    localStorage.setItem(RECENT_KEY, JSON.stringify(next));
+    handleOpenChange(false);
+    router.push(`/docs${item.href}`);
+  }
+
+  function handleKeyDown(event: React.KeyboardEvent<HTMLInputElement>) {
+    if (!flatItems.length) return;
+    if (event.key == "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex((index) => (index + 1) % flatItems.length);
+    } else if (event.key == "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex(
+        (index) => (index - 1 + flatItems.length) % flatItems.length,
+      );
+    } else if (event.key == "Enter") {
+      event.preventDefault();
+      navigate(flatItems[activeIndex]);
+    }
+  }
+
+  return (
+    <>
+      <SearchButton className="sm:flex hidden" />
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent className="p-0 max-w-[650px] sm:top-[38%] top-[45%] !rounded-md gap-0">
+          <DialogTitle className="sr-only">Search</DialogTitle>
+          <DialogHeader>
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Type something to search..."
+              autoFocus
+              className="h-14 px-6 bg-transparent border-b text-[14px] outline-none"
+            />
+          </DialogHeader>
+          {flatItems.length == 0 && query && (
+            <p className="text-muted-foreground mx-auto my-4 text-sm">
+              No results found for{" "}
+              <span className="text-primary">{`"${query}"`}</span>
+            </p>
+          )}
+          <ScrollArea className="max-h-[400px] overflow-y-auto">
+            <div
+              ref={listRef}
+              className="flex flex-col items-start sm:px-2 px-1 py-2"
+            >
+              {groups.map((group) => (
+                <div key={group.label} className="w-full">
+                  <p className="px-3 pt-3 pb-1.5 text-xs font-medium text-muted-foreground">
+                    {group.label}
+                  </p>
+                  {group.items.map((item) => {
+                    const index = flatItems.indexOf(item);
+                    const Icon = group.label == "Recent" ? ClockIcon : FileIcon;
+                    return (
+                      <button
+                        key={group.label + item.href}
+                        data-index={index}
+                        onClick={() => navigate(item)}
+                        onMouseMove={() => setActiveIndex(index)}
+                        className={cn(
+                          "w-full px-3 py-3 rounded-sm text-sm flex items-start gap-2.5 text-start",
+                          index == activeIndex &&
+                            "dark:bg-stone-900 bg-stone-100",
+                        )}
+                      >
+                        <Icon className="h-[1.1rem] w-[1.1rem] min-w-[1.1rem]" />
+                        <div className="flex flex-col gap-1">
+                          {item.title}
+                          {item.snippet && (
+                            <p className="text-xs text-muted-foreground">
+                              {item.snippet.map((part, i) =>
+                                part.match ? (
+                                  <mark
+                                    key={i}
+                                    className="bg-transparent text-primary font-semibold"
+                                  >
+                                    {part.text}
+                                  </mark>
+                                ) : (
+                                  part.text
+                                ),
+                              )}
+                            </p>
+                          )}
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+// fake input that opens the dialog, also used inside SheetLeftbar
+export function SearchButton({
+  className,
+  onClick,
+  ...props
+}: ComponentProps<"button">) {
+  return (
+    <button
+      {...props}
+      onClick={(e) => {
+        onClick?.(e);
+        openSearch();
+      }}
+      className={cn(
+        "relative items-center gap-2 border rounded-lg h-9 pl-3 pr-24 text-sm text-muted-foreground dark:bg-stone-950/95 bg-stone-50",
+        className,
+      )}
+    >
+      <SearchIcon className="h-4 w-4" />
+      Search...
+      <div className="absolute right-2 top-[0.4rem] flex items-center gap-0.5 text-xs font-code pointer-events-none">
+        <div className="bg-background/30 border rounded-md py-0.5 px-1 dark:border-neutral-700 border-neutral-300">
+          Ctrl
+        </div>
+        <div className="bg-background/30 border rounded-md py-0.5 px-[0.28rem] dark:border-neutral-700 border-neutral-300">
+          K
+        </div>
+      </div>
+    </button>
+  );
+}
+
+function groupResults(results: EachRoute[], routes: EachRoute[]) {
+  const groups: SearchGroup[] = [];
+  results.forEach(({ title, href }) => {
+    const label = getSectionTitles(href, routes).join(" › ") || "Docs";
+    const group = groups.find((it) => it.label == label);
+    if (group) group.items.push({ title, href });
+    else groups.push({ label, items: [{ title, href }] });
+  });
+  return groups;
+}
+
+// hits are grouped by page, each one links to its heading
+function groupHits(hits: SearchHit[]) {
+  const groups: SearchGroup[] = [];
+  hits.forEach((hit) => {
+    const label = [hit.section, hit.title].filter((it) => !!it).join(" › ");
+    const item = {
+      title: hit.heading || hit.title,
+      href: hit.anchor ? `${hit.href}#${hit.anchor}` : hit.href,
+      snippet: hit.snippet,
+    };
+    const group = groups.find((it) => it.label == label);
+    if (group) group.items.push(item);
+    else groups.push({ label, items: [item] });
+  });
+  return groups;
+}
+
+function readRecent(): SearchItem[] {
+  try {
+    return JSON.parse(localStorage.getItem(RECENT_KEY) ?? "[]");
+  } catch {
+    return [];
+  }
+}
+
+function isTyping(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)
+  );
+}
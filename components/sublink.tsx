@@ -1,4 +1,4 @@
-import { EachRoute } from "@/lib/routes-config";
+import type { EachRoute } from "@/lib/routes-config";
 import Anchor from "./anchor";
 import {
   Collapsible,
@@ -65,14 +65,14 @@ export default function SubLink({
   return (
     <div className="flex flex-col gap-1 w-full">
       <Collapsible open={isOpen} onOpenChange={setIsOpen}>
-        <CollapsibleTrigger className="w-full pr-5">
+        <CollapsibleTrigger className="w-full pe-5">
           <div className="flex items-center justify-between cursor-pointer w-full">
             <span className="w-[95%] overflow-hidden text-ellipsis text-start">
               {titleOrLink}
             </span>
-            <span className="sm:ml-0 -mr-1.5">
+            <span className="sm:ms-0 -me-1.5">
               {!isOpen ? (
-                <ChevronRight className="h-[0.9rem] w-[0.9rem]" />
+                <ChevronRight className="h-[0.9rem] w-[0.9rem] rtl:rotate-180" />
               ) : (
                 <ChevronDown className="h-[0.9rem] w-[0.9rem]" />
               )}
@@ -82,8 +82,8 @@ export default function SubLink({
         <CollapsibleContent>
           <div
             className={cn(
-              "flex flex-col items-start sm:text-sm dark:text-stone-300/85 text-stone-800 ml-0.5 mt-2.5 gap-3",
-              level > 0 && "pl-4 border-l ml-1.5"
+              "flex flex-col items-start sm:text-sm dark:text-stone-300/85 text-stone-800 ms-0.5 mt-2.5 gap-3",
+              level > 0 && "ps-4 border-s ms-1.5"
             )}
           >
             {items?.map((innerLink) => {
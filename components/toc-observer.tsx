@@ -1,11 +1,11 @@
 "use client";
 
-import { getDocsTocs } from "@/lib/markdown";
+import type { TocItem } from "@/lib/markdown";
 import clsx from "clsx";
 import Link from "next/link";
 import { useState, useRef, useEffect } from "react";
 
-type Props = { data: Awaited<ReturnType<typeof getDocsTocs>> };
+type Props = { data: TocItem[] };
 
 export default function TocObserver({ data }: Props) {
   const [activeId, setActiveId] = useState<string | null>(null);
@@ -47,16 +47,16 @@ export default function TocObserver({ data }: Props) {
   }, [data]);
 
   return (
-    <div className="flex flex-col gap-2.5 text-sm dark:text-stone-300/85 text-stone-800 ml-0.5">
+    <div className="flex flex-col gap-2.5 text-sm dark:text-stone-300/85 text-stone-800 ms-0.5">
       {data.map(({ href, level, text }, index) => {
         return (
           <Link
             key={href + text + level + index}
             href={href}
             className={clsx({
-              "pl-0": level == 2,
-              "pl-4": level == 3,
-              "pl-8 ": level == 4,
+              "ps-0": level == 2,
+              "ps-4": level == 3,
+              "ps-8 ": level == 4,
               "dark:font-medium font-semibold text-primary":
                 activeId == href.slice(1),
             })}
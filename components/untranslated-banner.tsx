@@ -0,0 +1,11 @@
+import { LanguagesIcon } from "lucide-react";
+import { getMessages } from "@/lib/i18n";
+
+export default function UntranslatedBanner({ locale }: { locale?: string }) {
+  return (
+    <div className="flex items-center gap-2.5 border rounded-md px-4 py-3 mb-6 text-sm dark:bg-stone-950/25 bg-stone-50">
+      <LanguagesIcon className="w-4 h-4 min-w-4" />
+      <p>{getMessages(locale).untranslated}</p>
+    </div>
+  );
+}
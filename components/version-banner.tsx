@@ -0,0 +1,25 @@
+import Link from "next/link";
+import { TriangleAlertIcon } from "lucide-react";
+
+export default function VersionBanner({
+  name,
+  latestHref,
+}: {
+  name: string;
+  latestHref: string;
+}) {
+  return (
+    <div className="flex items-center gap-2.5 border rounded-md px-4 py-3 mb-6 text-sm dark:bg-orange-950 bg-orange-100 border-orange-200 dark:border-orange-900">
+      <TriangleAlertIcon className="w-4 h-4 min-w-4" />
+      <p>
+        You are viewing the documentation for{" "}
+        <span className="font-code font-semibold">{name}</span>, which is no
+        longer the latest version.{" "}
+        <Link href={latestHref} className="underline underline-offset-2">
+          Go to the latest docs
+        </Link>
+        .
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import { ChevronDownIcon } from "lucide-react";
+import type { DocsVersion } from "@/lib/routes-config";
+import { findClosestPage, findVersion } from "@/lib/utils";
+import { localizeHref, splitLocale } from "@/lib/i18n";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+export default function VersionSwitcher({
+  versions,
+}: {
+  versions: DocsVersion[];
+}) {
+  const { locale, path: pathname } = splitLocale(usePathname());
+  const router = useRouter();
+  if (versions.length < 2 || !pathname.startsWith("/docs")) return null;
+
+  const path = pathname.replace(/^\/docs/, "");
+  const current = findVersion(path, versions);
+  const rest = path.slice(current.prefix.length);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="gap-1 font-code">
+          {current.name}
+          <ChevronDownIcon className="h-[0.9rem] w-[0.9rem]" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {versions.map((version) => (
+          <DropdownMenuItem
+            key={version.name}
+            className="font-code"
+            onClick={() =>
+              router.push(
+                localizeHref(`/docs${findClosestPage(rest, version)}`, locale),
+              )
+            }
+          >
+            {version.name}
+            {version.latest && (
+              <span className="ml-2 text-xs text-muted-foreground">latest</span>
+            )}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,53 @@
+// #region fetch-user
+import { goFetch } from 'go-errors';
+
+// #region user
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+// #endregion user
+
+async function fetchUser() {
+  let [user, err] = await goFetch<User>('/api/users/123', {
+    responseTransformer: (data) => {
+      // Validate and transform the response data
+      const raw = data as Partial<User> | null;
+      if (typeof raw !== 'object' || raw === null || !raw.id || !raw.name || !raw.email) {
+        throw new Error('Invalid user data received');
+      }
+      return { id: raw.id, name: raw.name, email: raw.email };
+    },
+  });
+
+  if (err) {
+    console.error('Failed to fetch user:', err);
+  } else {
+    console.log('Fetched user:', user);
+  }
+}
+
+fetchUser();
+// #endregion fetch-user
+
+// #region get-user
+// Return the error instead of handling it, the caller decides what to do
+async function getUser(id: string) {
+  const [user, err] = await goFetch<User>(`/api/users/${id}`);
+  if (err) {
+    return [null, err] as const;
+  }
+
+  return [user, null] as const;
+}
+
+async function displayUser(id: string) {
+  const [user, err] = await getUser(id);
+  if (err) {
+    console.error('Failed to fetch user:', err.message);
+    return;
+  }
+  console.log('User:', user.name);
+}
+// #endregion get-user
@@ -0,0 +1,272 @@
+// content layer: every mdx file is compiled once and the result (frontmatter,
+// compiled source, headings, excerpt) is cached in memory and in .next/cache,
+// keyed by the hash of the file, so unchanged pages aren't recompiled on the next build
+
+import path from "path";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { cache } from "react";
+import { serialize } from "next-mdx-remote/serialize";
+import remarkGfm from "remark-gfm";
+import rehypePrism from "rehype-prism-plus";
+import rehypeAutolinkHeadings from "rehype-autolink-headings";
+import rehypeSlug from "rehype-slug";
+import rehypeCodeTitles from "rehype-code-titles";
+import { visit, SKIP } from "unist-util-visit";
+import { toString } from "hast-util-to-string";
+import { getIconName, hasSupportedExtension } from "./utils";
+import {
+  getTypesHash,
+  rehypeTwoslash,
+  rehypeTwoslashRender,
+} from "./twoslash";
+import { expandIncludesWithSources, SourceLine } from "./includes";
+
+// bump when the compile pipeline changes to invalidate the disk cache
+const CACHE_VERSION = "4";
+const CACHE_DIR = path.join(process.cwd(), "/.next/cache/content/");
+const EXCERPT_LENGTH = 200;
+
+export type TocItem = {
+  level: number;
+  text: string;
+  href: string;
+};
+
+export type TocOptions = false | { minLevel?: number; maxLevel?: number };
+
+// a code fence marked `run`, executed by scripts/run-examples.ts
+export type CodeExample = {
+  code: string;
+  line: number; // of the opening fence in the expanded source, after the frontmatter
+  sources?: SourceLine[]; // of the opening fence and every line of the code
+};
+
+export type ContentDocument<Frontmatter> = {
+  filePath: string;
+  frontmatter: Frontmatter;
+  compiledSource: string;
+  tocs: TocItem[];
+  anchors: string[]; // ids of every heading, whatever the toc options
+  excerpt: string;
+  examples: CodeExample[];
+};
+
+type CachedDocument = Omit<
+  ContentDocument<{ toc?: TocOptions }>,
+  "filePath"
+>;
+
+const compiled = new Map<string, Promise<CachedDocument>>();
+
+export async function getDocument<Frontmatter>(filePath: string) {
+  return (await loadDocument(filePath)) as ContentDocument<Frontmatter>;
+}
+
+// deduped per request by react, across requests by the content hash
+const loadDocument = cache(async (filePath: string) => {
+  // included files are part of the hashed source, and the go-errors types
+  // are part of the twoslash hovers
+  const { source: rawMdx, sources } = await expandIncludesWithSources(
+    await fs.readFile(filePath, "utf-8"),
+    filePath,
+  );
+  const hash = createHash("sha1")
+    .update(`${CACHE_VERSION}:${process.env.NODE_ENV}:${getTypesHash()}:`)
+    .update(rawMdx)
+    .digest("hex");
+
+  let doc = compiled.get(hash);
+  if (!doc) {
+    doc = readCache(hash).then(
+      (cached) => cached ?? compileAndCache(rawMdx, hash),
+    );
+    doc.catch(() => compiled.delete(hash));
+    compiled.set(hash, doc);
+  }
+  const { examples, ...rest } = await doc;
+  // positions in the compiled source start after the frontmatter, the cached
+  // document doesn't know where its lines come from
+  const offset = getFrontmatterLines(rawMdx);
+  return {
+    ...rest,
+    examples: examples.map((it) => ({
+      ...it,
+      sources: sources.slice(
+        offset + it.line - 1,
+        offset + it.line + it.code.split("\n").length,
+      ),
+    })),
+    filePath,
+  };
+});
+
+function getFrontmatterLines(source: string) {
+  const frontmatter = source.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n/)?.[0] ?? "";
+  return frontmatter.split("\n").length - 1;
+}
+
+async function compileAndCache(rawMdx: string, hash: string) {
+  const doc = await compileDocument(rawMdx);
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.writeFile(path.join(CACHE_DIR, `${hash}.json`), JSON.stringify(doc));
+  } catch (err) {
+    console.log(err);
+  }
+  return doc;
+}
+
+async function readCache(hash: string) {
+  try {
+    const raw = await fs.readFile(path.join(CACHE_DIR, `${hash}.json`), "utf-8");
+    return JSON.parse(raw) as CachedDocument;
+  } catch {
+    return undefined;
+  }
+}
+
+async function compileDocument(rawMdx: string): Promise<CachedDocument> {
+  const headings: TocItem[] = [];
+  const text: string[] = [];
+  const examples: CodeExample[] = [];
+  const { compiledSource, frontmatter } = await serialize<
+    Record<string, unknown>,
+    { toc?: TocOptions }
+  >(
+    rawMdx,
+    {
+      parseFrontmatter: true,
+      mdxOptions: {
+        rehypePlugins: [
+          rehypeTwoslash,
+          [preProcess, examples],
+          rehypeCodeTitles,
+          rehypeCodeTitlesWithLogo,
+          rehypePrism,
+          rehypeTwoslashRender,
+          rehypeSlug,
+          [collectHeadings, headings],
+          rehypeAutolinkHeadings,
+          postProcess,
+        ],
+        remarkPlugins: [remarkGfm, [collectText, text]],
+      },
+    },
+    // no useMDXComponents, components are passed when rendering
+    true,
+  );
+
+  return {
+    frontmatter,
+    compiledSource,
+    tocs: filterTocs(headings, frontmatter.toc),
+    anchors: headings.map((it) => it.href.slice(1)),
+    excerpt: getExcerpt(text.join(" ")),
+    examples,
+  };
+}
+
+function filterTocs(headings: TocItem[], options: TocOptions = {}) {
+  if (options === false) return [];
+  const { minLevel = 2, maxLevel = 4 } = options;
+  return headings.filter(
+    ({ level }) => level >= minLevel && level <= maxLevel,
+  );
+}
+
+function getExcerpt(text: string) {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= EXCERPT_LENGTH) return clean;
+  const cut = clean.slice(0, EXCERPT_LENGTH);
+  return `${cut.slice(0, cut.lastIndexOf(" "))}…`;
+}
+
+// prose only, headings and code blocks are left out of the excerpt
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const collectText = (text: string[]) => (tree: any) => {
+  visit(tree, (node) => {
+    if (node.type == "heading" || node.type == "code") return SKIP;
+    if (node.type == "text" || node.type == "inlineCode") text.push(node.value);
+  });
+};
+
+// for copying the code in pre, fences marked `run` are collected as examples
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const preProcess = (examples: CodeExample[]) => (tree: any) => {
+  visit(tree, (node) => {
+    if (node?.type === "element" && node?.tagName === "pre") {
+      const [codeEl] = node.children;
+      if (codeEl.tagName !== "code") return;
+      node.raw = codeEl.children?.[0].value;
+      const meta: string = codeEl.data?.meta ?? "";
+      if (node.raw && meta.split(/\s+/).includes("run")) {
+        examples.push({ code: node.raw, line: node.position?.start.line ?? 0 });
+      }
+    }
+  });
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const postProcess = () => (tree: any) => {
+  visit(tree, "element", (node) => {
+    if (node?.type === "element" && node?.tagName === "pre") {
+      node.properties["raw"] = node.raw;
+    }
+  });
+};
+
+// runs right after rehypeSlug so the ids match the rendered anchors
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const collectHeadings = (headings: TocItem[]) => (tree: any) => {
+  visit(tree, "element", (node) => {
+    const match = node.tagName?.match(/^h([1-6])$/);
+    if (!match || !node.properties?.id) return;
+    headings.push({
+      level: Number(match[1]),
+      text: toString(node),
+      href: `#${node.properties.id}`,
+    });
+  });
+};
+
+function rehypeCodeTitlesWithLogo() {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  return (tree: any) => {
+    visit(tree, "element", (node) => {
+      if (
+        node?.tagName === "div" &&
+        node?.properties?.className?.includes("rehype-code-title")
+      ) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const titleTextNode = node.children.find((child: any) =>
+          child.type === "text"
+        );
+        if (!titleTextNode) return;
+
+        // Extract filename and language
+        const titleText = titleTextNode.value;
+        const match = hasSupportedExtension(titleText);
+        if (!match) return;
+
+        const splittedNames = titleText.split(".");
+        const ext = splittedNames[splittedNames.length - 1];
+        const iconClass = `devicon-${
+          getIconName(
+            ext,
+          )
+        }-plain text-[17px]`;
+
+        // Insert icon before title text
+        if (iconClass) {
+          node.children.unshift({
+            type: "element",
+            tagName: "i",
+            properties: { className: [iconClass, "code-icon"] },
+            children: [],
+          });
+        }
+      }
+    });
+  };
+}
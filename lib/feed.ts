@@ -0,0 +1,222 @@
+// rss, atom and json feeds for the blog, served from app/blog/{rss.xml,atom.xml,feed.json}
+
+import { promises as fs } from "fs";
+import matter from "gray-matter";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkMdx from "remark-mdx";
+import remarkGfm from "remark-gfm";
+import remarkRehype from "remark-rehype";
+import rehypeSlug from "rehype-slug";
+import rehypeStringify from "rehype-stringify";
+import { visit, SKIP } from "unist-util-visit";
+import {
+  Author,
+  getAllBlogs,
+  getBlogAssetBase,
+  getBlogFilePath,
+  resolveAssetSrc,
+} from "./markdown";
+import { SITE_NAME, SITE_URL, absoluteUrl } from "./site";
+import { stringToDate } from "./utils";
+import { expandIncludes } from "./includes";
+
+export const FEEDS = {
+  rss: { href: "/blog/rss.xml", type: "application/rss+xml" },
+  atom: { href: "/blog/atom.xml", type: "application/atom+xml" },
+  json: { href: "/blog/feed.json", type: "application/feed+json" },
+};
+
+const FEED_TITLE = `${SITE_NAME} - Blog`;
+const FEED_DESCRIPTION = "All the latest blogs and news, straight from the team.";
+
+export type FeedEntry = {
+  url: string;
+  title: string;
+  description: string;
+  date: Date;
+  authors: Author[];
+  cover?: string;
+  html: string;
+};
+
+// newest first
+export async function getFeedEntries() {
+  const blogs = await getAllBlogs();
+  const entries = await Promise.all(
+    blogs.map(async (blog): Promise<FeedEntry> => {
+      const url = absoluteUrl(`/blog/${blog.slug}`);
+      return {
+        url,
+        title: blog.title,
+        description: blog.description,
+        date: stringToDate(blog.date),
+        authors: blog.authors ?? [],
+        cover: blog.cover ? absoluteUrl(blog.cover) : undefined,
+        html: await getBlogHtml(blog.slug, url),
+      };
+    }),
+  );
+  return entries.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+export function toRss(entries: FeedEntry[]) {
+  const items = entries.map(
+    (entry) => `<item>
+<title>${escapeXml(entry.title)}</title>
+<link>${escapeXml(entry.url)}</link>
+<guid isPermaLink="true">${escapeXml(entry.url)}</guid>
+<pubDate>${entry.date.toUTCString()}</pubDate>
+<description>${escapeXml(entry.description)}</description>
+${entry.authors
+  .map((author) => `<dc:creator>${escapeXml(author.username)}</dc:creator>`)
+  .join("\n")}
+${entry.cover ? `<media:content url="${escapeXml(entry.cover)}" medium="image"/>` : ""}
+<content:encoded>${escapeXml(entry.html)}</content:encoded>
+</item>`,
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:media="http://search.yahoo.com/mrss/">
+<channel>
+<title>${escapeXml(FEED_TITLE)}</title>
+<link>${SITE_URL}/blog</link>
+<description>${escapeXml(FEED_DESCRIPTION)}</description>
+<atom:link href="${absoluteUrl(FEEDS.rss.href)}" rel="self" type="${FEEDS.rss.type}"/>
+${entries[0] ? `<lastBuildDate>${entries[0].date.toUTCString()}</lastBuildDate>` : ""}
+${items.join("\n")}
+</channel>
+</rss>
+`;
+}
+
+export function toAtom(entries: FeedEntry[]) {
+  const items = entries.map(
+    (entry) => `<entry>
+<id>${escapeXml(entry.url)}</id>
+<title>${escapeXml(entry.title)}</title>
+<link href="${escapeXml(entry.url)}"/>
+<published>${entry.date.toISOString()}</published>
+<updated>${entry.date.toISOString()}</updated>
+<summary>${escapeXml(entry.description)}</summary>
+${entry.authors
+  .map(
+    (author) =>
+      `<author><name>${escapeXml(author.username)}</name><uri>${escapeXml(author.handleUrl)}</uri></author>`,
+  )
+  .join("\n")}
+${entry.cover ? `<link rel="enclosure" href="${escapeXml(entry.cover)}"/>` : ""}
+<content type="html">${escapeXml(entry.html)}</content>
+</entry>`,
+  );
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+<id>${SITE_URL}/blog</id>
+<title>${escapeXml(FEED_TITLE)}</title>
+<subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>
+<link href="${SITE_URL}/blog"/>
+<link rel="self" href="${absoluteUrl(FEEDS.atom.href)}"/>
+<updated>${(entries[0]?.date ?? new Date(0)).toISOString()}</updated>
+${items.join("\n")}
+</feed>
+`;
+}
+
+// https://www.jsonfeed.org/version/1.1/
+export function toJsonFeed(entries: FeedEntry[]) {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: FEED_TITLE,
+    description: FEED_DESCRIPTION,
+    home_page_url: `${SITE_URL}/blog`,
+    feed_url: absoluteUrl(FEEDS.json.href),
+    items: entries.map((entry) => ({
+      id: entry.url,
+      url: entry.url,
+      title: entry.title,
+      summary: entry.description,
+      content_html: entry.html,
+      image: entry.cover,
+      date_published: entry.date.toISOString(),
+      authors: entry.authors.map((author) => ({
+        name: author.username,
+        url: author.handleUrl,
+        avatar: author.avatar,
+      })),
+    })),
+  });
+}
+
+// feed readers can't run the mdx components, so posts are rendered to plain
+// html: jsx elements keep their children, images and links get absolute urls
+async function getBlogHtml(slug: string, url: string) {
+  const filePath = (await getBlogFilePath(slug))!;
+  const { content } = matter(
+    await expandIncludes(await fs.readFile(filePath, "utf-8"), filePath),
+  );
+  const file = await unified()
+    .use(remarkParse)
+    .use(remarkMdx)
+    .use(remarkGfm)
+    .use(unwrapMdx)
+    .use(remarkRehype)
+    .use(rehypeSlug)
+    .use(absoluteUrls, { assetBase: getBlogAssetBase(slug), url })
+    .use(rehypeStringify)
+    .process(content);
+  return String(file);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const unwrapMdx = () => (tree: any) => {
+  visit(tree, (node, index, parent) => {
+    if (
+      node.type == "mdxjsEsm" ||
+      node.type == "mdxFlowExpression" ||
+      node.type == "mdxTextExpression"
+    ) {
+      parent.children.splice(index, 1);
+      return [SKIP, index];
+    }
+    if (node.type != "mdxJsxFlowElement" && node.type != "mdxJsxTextElement")
+      return;
+    const attributes = Object.fromEntries(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      node.attributes.map((it: any) => [it.name, it.value]),
+    );
+    if (node.name == "img" || node.name == "Image") {
+      node.data = {
+        hName: "img",
+        hProperties: { src: attributes.src, alt: attributes.alt },
+      };
+      node.children = [];
+      return;
+    }
+    node.data = { hName: node.type == "mdxJsxFlowElement" ? "div" : "span" };
+  });
+};
+
+const absoluteUrls =
+  ({ assetBase, url }: { assetBase: string; url: string }) =>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (tree: any) => {
+    visit(tree, "element", (node) => {
+      const { src, href } = node.properties ?? {};
+      if (node.tagName == "img" && typeof src == "string") {
+        node.properties.src = absoluteUrl(resolveAssetSrc(src, assetBase));
+      }
+      if (node.tagName == "a" && typeof href == "string") {
+        node.properties.href = href.startsWith("#")
+          ? `${url}${href}`
+          : absoluteUrl(href);
+      }
+    });
+  };
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,138 @@
+// runtime schemas for the frontmatter of docs pages and blog posts, checked
+// whenever a page is loaded and by `bun run docs:check` (scripts/check-docs.ts)
+
+import path from "path";
+import { z } from "zod";
+import { stringToDate } from "./utils";
+
+const DATE_FORMAT = /^(\d{2}-\d{2}-\d{4}|\d{4}-\d{2}-\d{2})$/;
+const HEADING_LEVEL = z.number().int().min(1).max(6);
+
+export const docsFrontmatterSchema = z.strictObject({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  // used when building the sidebar (lib/routes-tree.ts)
+  sidebarTitle: z.string().optional(),
+  order: z.number().optional(),
+  tag: z.string().optional(),
+  hidden: z.boolean().optional(),
+  keywords: z.array(z.string()).optional(),
+  // defaults to h2 - h4
+  toc: z
+    .union(
+      [
+        z.literal(false),
+        z.strictObject({
+          minLevel: HEADING_LEVEL.optional(),
+          maxLevel: HEADING_LEVEL.optional(),
+        }),
+      ],
+      { error: "expected false or { minLevel?: 1-6, maxLevel?: 1-6 }" },
+    )
+    .optional(),
+  // unpublished pages are only rendered in draft mode (app/preview), noindex
+  // pages are left out of the sitemap and tell crawlers to skip them
+  draft: z.boolean().optional(),
+  publishAt: z
+    .union([z.iso.date(), z.iso.datetime({ offset: true })], {
+      error: 'expected a date like "2025-01-31" or "2025-01-31T09:00:00Z"',
+    })
+    .optional(),
+  noindex: z.boolean().optional(),
+});
+
+const authorSchema = z.strictObject({
+  avatar: z.string().optional(),
+  handle: z.string(),
+  username: z.string(),
+  handleUrl: z.url(),
+});
+
+export const blogFrontmatterSchema = docsFrontmatterSchema.extend({
+  date: z
+    .string()
+    .regex(DATE_FORMAT, {
+      error: 'expected a date like "2024-03-21" or "21-03-2024"',
+      abort: true,
+    })
+    .refine(isValidDate, "not a valid date"),
+  authors: z.array(authorSchema).min(1, "expected at least one author"),
+  cover: z.string(),
+});
+
+export type BaseMdxFrontmatter = z.infer<typeof docsFrontmatterSchema>;
+export type BlogMdxFrontmatter = z.infer<typeof blogFrontmatterSchema>;
+export type Author = z.infer<typeof authorSchema>;
+
+// publishAt is compared with the build time, scheduled pages appear with the
+// first build after it. gray-matter reads unquoted dates as Date objects
+export function isPublished({
+  draft,
+  publishAt,
+}: {
+  draft?: boolean;
+  publishAt?: string | Date;
+}) {
+  if (draft) return false;
+  return !publishAt || new Date(publishAt).getTime() <= Date.now();
+}
+
+export class FrontmatterError extends Error {
+  constructor(
+    readonly filePath: string,
+    readonly problems: string[],
+  ) {
+    super(
+      `Invalid frontmatter in ${path.relative(process.cwd(), filePath)}:\n${problems
+        .map((it) => `  - ${it}`)
+        .join("\n")}`,
+    );
+    this.name = "FrontmatterError";
+  }
+}
+
+export function parseFrontmatter<Schema extends z.ZodObject>(
+  schema: Schema,
+  data: unknown,
+  filePath: string,
+): z.infer<Schema> {
+  const result = schema.safeParse(data ?? {});
+  if (result.success) return result.data;
+  throw new FrontmatterError(
+    filePath,
+    result.error.issues.map((it) => formatIssue(it, schema)),
+  );
+}
+
+// "authors[0].handleUrl: Invalid URL"
+function formatIssue(issue: z.core.$ZodIssue, schema: z.ZodObject) {
+  if (issue.code == "unrecognized_keys") {
+    const keys = issue.keys.map((it) => `"${it}"`).join(", ");
+    if (issue.path.length)
+      return `${formatPath(issue.path)}: unknown field ${keys}`;
+    const fields = Object.keys(schema.shape).join(", ");
+    return `unknown field ${keys}, expected one of ${fields}`;
+  }
+  return `${formatPath(issue.path)}: ${issue.message.replace(/^Invalid input: /, "")}`;
+}
+
+// stringToDate rolls "31-02-2024" over into march
+function isValidDate(value: string) {
+  const date = stringToDate(value);
+  const [year, month, day] = [
+    date.getFullYear(),
+    date.getMonth() + 1,
+    date.getDate(),
+  ].map((it) => String(it).padStart(2, "0"));
+  return (
+    value == `${day}-${month}-${year}` || value == `${year}-${month}-${day}`
+  );
+}
+
+function formatPath(keys: PropertyKey[]) {
+  return keys
+    .map((key, index) =>
+      typeof key == "number" ? `[${key}]` : `${index ? "." : ""}${String(key)}`,
+    )
+    .join("");
+}
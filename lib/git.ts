@@ -0,0 +1,57 @@
+// file history, used for sitemap lastmod and the last updated info of pages
+
+import path from "path";
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import { promisify } from "util";
+
+const exec = promisify(execFile);
+
+// date of the last commit touching the file, its mtime when git isn't
+// available or the file isn't committed yet
+export async function getLastModified(filePath: string) {
+  try {
+    const { stdout } = await exec("git", [
+      "log",
+      "-1",
+      "--format=%cI",
+      "--",
+      filePath,
+    ]);
+    if (stdout.trim()) return new Date(stdout.trim());
+  } catch {
+    // not a git checkout
+  }
+  const stat = await fs.stat(filePath);
+  return stat.mtime;
+}
+
+export type Commit = {
+  hash: string;
+  shortHash: string;
+  author: string;
+  date: Date;
+};
+
+// undefined when git isn't available or the file isn't committed yet
+export async function getLastCommit(filePath: string) {
+  try {
+    const { stdout } = await exec("git", [
+      "log",
+      "-1",
+      "--format=%H%x00%h%x00%an%x00%cI",
+      "--",
+      filePath,
+    ]);
+    if (!stdout.trim()) return undefined;
+    const [hash, shortHash, author, date] = stdout.trim().split("\0");
+    return { hash, shortHash, author, date: new Date(date) } as Commit;
+  } catch {
+    return undefined;
+  }
+}
+
+// "contents/docs/x/index.mdx", with forward slashes for urls
+export function getRepoPath(filePath: string) {
+  return path.relative(process.cwd(), filePath).split(path.sep).join("/");
+}
@@ -0,0 +1,99 @@
+// locales for the docs, english lives in contents/docs and every other
+// locale in contents/<code>/docs, served under /<code>/docs/...
+
+export type Locale = {
+  code: string;
+  name: string;
+  intl: string; // used with toLocaleDateString
+  dir: "ltr" | "rtl";
+};
+
+export const LOCALES: Locale[] = [
+  { code: "en", name: "English", intl: "en-US", dir: "ltr" },
+  { code: "fa", name: "فارسی", intl: "fa-IR", dir: "rtl" },
+  { code: "ar", name: "العربية", intl: "ar", dir: "rtl" },
+];
+
+export const DEFAULT_LOCALE = "en";
+
+const MESSAGES = {
+  en: {
+    onThisPage: "On this page",
+    previous: "Previous",
+    next: "Next",
+    untranslated:
+      "This page hasn't been translated yet, you are reading the English version.",
+    editPage: "Edit this page on GitHub",
+    lastUpdated: "Last updated",
+    outdated:
+      "This page hasn't been updated in a long time and may be outdated.",
+    draft: "Draft",
+    draftNotice: "This page isn't published yet and is only visible in preview.",
+    scheduled: "Scheduled for",
+    exitPreview: "Exit preview",
+    opensInNewTab: "opens in a new tab",
+    showFullPath: "Show the full path",
+  },
+  fa: {
+    onThisPage: "در این صفحه",
+    previous: "قبلی",
+    next: "بعدی",
+    untranslated:
+      "این صفحه هنوز ترجمه نشده است و نسخه انگلیسی آن نمایش داده می‌شود.",
+    editPage: "ویرایش این صفحه در GitHub",
+    lastUpdated: "آخرین به‌روزرسانی",
+    outdated: "این صفحه مدت زیادی به‌روزرسانی نشده و ممکن است قدیمی باشد.",
+    draft: "پیش‌نویس",
+    draftNotice: "این صفحه هنوز منتشر نشده و فقط در پیش‌نمایش دیده می‌شود.",
+    scheduled: "زمان انتشار",
+    exitPreview: "خروج از پیش‌نمایش",
+    opensInNewTab: "در زبانه‌ای جدید باز می‌شود",
+    showFullPath: "نمایش مسیر کامل",
+  },
+  ar: {
+    onThisPage: "في هذه الصفحة",
+    previous: "السابق",
+    next: "التالي",
+    untranslated: "لم تتم ترجمة هذه الصفحة بعد، أنت تقرأ النسخة الإنجليزية.",
+    editPage: "عدّل هذه الصفحة على GitHub",
+    lastUpdated: "آخر تحديث",
+    outdated: "لم يتم تحديث هذه الصفحة منذ فترة طويلة وقد تكون قديمة.",
+    draft: "مسودة",
+    draftNotice: "هذه الصفحة لم تُنشر بعد وتظهر فقط في وضع المعاينة.",
+    scheduled: "موعد النشر",
+    exitPreview: "الخروج من المعاينة",
+    opensInNewTab: "يُفتح في علامة تبويب جديدة",
+    showFullPath: "إظهار المسار الكامل",
+  },
+};
+
+export type Messages = (typeof MESSAGES)["en"];
+
+export function getLocale(code?: string) {
+  return (
+    LOCALES.find((it) => it.code == code) ??
+    LOCALES.find((it) => it.code == DEFAULT_LOCALE)!
+  );
+}
+
+export function getMessages(code?: string): Messages {
+  return MESSAGES[getLocale(code).code as keyof typeof MESSAGES];
+}
+
+// "/fa/docs/x" -> { locale: "fa", path: "/docs/x" }
+export function splitLocale(pathname: string) {
+  const [, first] = pathname.split("/");
+  const locale = LOCALES.find(
+    (it) => it.code == first && it.code != DEFAULT_LOCALE,
+  );
+  if (!locale) return { locale: DEFAULT_LOCALE, path: pathname };
+  return {
+    locale: locale.code,
+    path: pathname.slice(locale.code.length + 1) || "/",
+  };
+}
+
+// "/docs/x" -> "/fa/docs/x", the default locale has no prefix
+export function localizeHref(href: string, locale = DEFAULT_LOCALE) {
+  return locale == DEFAULT_LOCALE ? href : `/${locale}${href}`;
+}
@@ -0,0 +1,226 @@
+// shared content for mdx pages, expanded into the page source before it is
+// compiled, so it goes through the same pipeline and cache key as inline content
+//
+//   <Include file="install.mdx" />        contents/partials/install.mdx
+//
+//   ```typescript file=users.ts           contents/examples/users.ts
+//   ```
+//   ```typescript file=users.ts#fetch-user   only the `// #region fetch-user` block
+//   ```
+//   ```typescript file=users.ts#L4-L12       lines 4 to 12
+//   ```
+//
+// imported fences are titled with the file name unless they have a title
+// (```typescript:other-name.ts), the body of the fence is replaced
+
+import path from "path";
+import { promises as fs } from "fs";
+
+const PARTIALS_DIR = path.join(process.cwd(), "/contents/partials/");
+const EXAMPLES_DIR = path.join(process.cwd(), "/contents/examples/");
+const MAX_DEPTH = 5;
+
+const INCLUDE = /^\s*<Include\s+file=["']([^"']+)["']\s*\/>\s*$/;
+const FENCE = /^(\s*)(`{3,}|~{3,})\s*(\S*)(.*)$/;
+const FILE_META = /(^|\s)file=(\S+)/;
+const LINE_RANGE = /^L(\d+)(?:-L(\d+))?$/;
+const REGION = /^\s*\/\/\s*#(region|endregion)\b\s*(.*?)\s*$/;
+
+export class IncludeError extends Error {
+  constructor(filePath: string, line: number, message: string) {
+    super(`${path.relative(process.cwd(), filePath)}:${line}: ${message}`);
+    this.name = "IncludeError";
+  }
+}
+
+// where a line of the expanded source comes from, the page itself, a partial
+// or an example file
+export type SourceLine = { filePath: string; line: number };
+
+export async function expandIncludes(source: string, filePath: string) {
+  return (await expand(source, filePath, 0)).lines.join("\n");
+}
+
+// `sources[i]` is the origin of line i + 1 of `source`
+export async function expandIncludesWithSources(
+  source: string,
+  filePath: string,
+) {
+  const { lines, sources } = await expand(source, filePath, 0);
+  return { source: lines.join("\n"), sources };
+}
+
+async function expand(
+  source: string,
+  filePath: string,
+  depth: number,
+  firstLine = 1, // of the source in the file, after a stripped frontmatter
+): Promise<{ lines: string[]; sources: SourceLine[] }> {
+  const lines = source.split("\n");
+  const output: string[] = [];
+  const sources: SourceLine[] = [];
+  const push = (line: number, ...text: string[]) => {
+    output.push(...text);
+    text.forEach(() => sources.push({ filePath, line }));
+  };
+  let fence: string | undefined;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const lineNumber = firstLine + index;
+    const fail = (message: string) =>
+      new IncludeError(filePath, lineNumber, message);
+
+    if (fence) {
+      if (line.trim() == fence) fence = undefined;
+      push(lineNumber, line);
+      continue;
+    }
+
+    const include = line.match(INCLUDE);
+    if (include) {
+      if (depth >= MAX_DEPTH) {
+        throw fail(`includes are nested more than ${MAX_DEPTH} deep`);
+      }
+      const partialPath = resolveIn(PARTIALS_DIR, include[1]);
+      const partial = partialPath && (await readFile(partialPath));
+      if (!partialPath || partial == undefined) {
+        throw fail(
+          `cannot include "${include[1]}", no such file in contents/partials`,
+        );
+      }
+      const { body, bodyLine } = stripFrontmatter(partial);
+      const expanded = await expand(body, partialPath, depth + 1, bodyLine);
+      output.push(...expanded.lines);
+      sources.push(...expanded.sources);
+      continue;
+    }
+
+    const match = line.match(FENCE);
+    if (!match) {
+      push(lineNumber, line);
+      continue;
+    }
+    const [, indent, marker, lang, meta] = match;
+    const file = meta.match(FILE_META)?.[2];
+    if (!file) {
+      fence = marker;
+      push(lineNumber, line);
+      continue;
+    }
+    const closing = lines.findIndex(
+      (it, i) => i > index && it.trim() == marker,
+    );
+    if (closing == -1) throw fail(`the fence importing "${file}" isn't closed`);
+
+    const [name, selector] = file.split("#");
+    const examplePath = resolveIn(EXAMPLES_DIR, name);
+    const code = examplePath && (await readFile(examplePath));
+    if (!examplePath || code == undefined) {
+      throw fail(`cannot import "${name}", no such file in contents/examples`);
+    }
+    const selected = selectCode(code, selector);
+    if ("error" in selected) {
+      throw fail(`cannot import "${file}", ${selected.error}`);
+    }
+
+    const title = lang.includes(":") ? "" : `:${path.basename(name)}`;
+    const rest = meta.replace(FILE_META, "$1").trim();
+    push(
+      lineNumber,
+      `${indent}${marker}${lang}${title}${rest ? ` ${rest}` : ""}`,
+    );
+    selected.lines.forEach((it, i) => {
+      output.push(it ? `${indent}${it}` : it);
+      sources.push({ filePath: examplePath, line: selected.lineNumbers[i] });
+    });
+    push(firstLine + closing, `${indent}${marker}`);
+    index = closing;
+  }
+  return { lines: output, sources };
+}
+
+// a `// #region name` block, a line range like L4-L12, or the whole file,
+// region markers are left out and the code is dedented. `lineNumbers` are
+// the lines of the selected code in the file
+function selectCode(code: string, selector?: string) {
+  const all = code.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+  let start = 0;
+  let lines = all;
+  const range = selector?.match(LINE_RANGE);
+  if (range) {
+    const first = Number(range[1]);
+    const last = Number(range[2] ?? range[1]);
+    if (first < 1 || last < first || last > all.length) {
+      return {
+        error: `lines ${first}-${last} are outside its ${all.length} lines`,
+      };
+    }
+    start = first - 1;
+    lines = all.slice(start, last);
+  } else if (selector) {
+    const region = getRegion(all, selector);
+    if (!region) return { error: `no "// #region ${selector}" in the file` };
+    [start, lines] = region;
+  }
+  const kept = lines
+    .map((text, index) => ({ text, line: start + index + 1 }))
+    .filter((it) => !REGION.test(it.text));
+  return {
+    lines: dedent(kept.map((it) => it.text)),
+    lineNumbers: kept.map((it) => it.line),
+  };
+}
+
+// regions can be nested, the matching #endregion closes the block. The index
+// of the first line is returned with the lines
+function getRegion(
+  lines: string[],
+  name: string,
+): [number, string[]] | undefined {
+  const start = lines.findIndex((it) => {
+    const marker = it.match(REGION);
+    return marker?.[1] == "region" && marker[2] == name;
+  });
+  if (start == -1) return undefined;
+  let depth = 0;
+  for (let index = start + 1; index < lines.length; index++) {
+    const marker = lines[index].match(REGION);
+    if (marker?.[1] == "region") depth++;
+    if (marker?.[1] == "endregion" && depth-- == 0) {
+      return [start + 1, lines.slice(start + 1, index)];
+    }
+  }
+  return undefined;
+}
+
+function dedent(lines: string[]) {
+  const indents = lines
+    .filter((it) => it.trim())
+    .map((it) => it.match(/^\s*/)![0].length);
+  const min = indents.length ? Math.min(...indents) : 0;
+  return lines.map((it) => it.slice(min));
+}
+
+// never outside the folder
+function resolveIn(dir: string, file: string) {
+  const filePath = path.join(dir, file);
+  return filePath.startsWith(dir) ? filePath : undefined;
+}
+
+async function readFile(filePath: string) {
+  try {
+    return await fs.readFile(filePath, "utf-8");
+  } catch {
+    return undefined;
+  }
+}
+
+// with the line the body starts on
+function stripFrontmatter(source: string) {
+  const frontmatter = source.match(/^---\r?\n[\s\S]*?\r?\n---\r?\n/)?.[0] ?? "";
+  return {
+    body: source.slice(frontmatter.length),
+    bodyLine: frontmatter.split("\n").length,
+  };
+}
@@ -1,15 +1,34 @@
-import { compileMDX } from "next-mdx-remote/rsc";
 import path from "path";
 import { promises as fs } from "fs";
-import remarkGfm from "remark-gfm";
-import rehypePrism from "rehype-prism-plus";
-import rehypeAutolinkHeadings from "rehype-autolink-headings";
-import rehypeSlug from "rehype-slug";
-import rehypeCodeTitles from "rehype-code-titles";
-import { page_routes, ROUTES } from "./routes-config";
-import { visit } from "unist-util-visit";
-import matter from "gray-matter";
-import { getIconName, hasSupportedExtension } from "./utils";
+import {
+  createElement,
+  type ComponentProps,
+  type ComponentType,
+} from "react";
+import * as runtime from "react/jsx-runtime";
+import * as devRuntime from "react/jsx-dev-runtime";
+import type { z } from "zod";
+import { VERSIONS } from "./routes-config";
+import { readMeta } from "./routes-tree";
+import { findVersion } from "./utils";
+import { DEFAULT_LOCALE, splitLocale } from "./i18n";
+import { getDocument } from "./content";
+import {
+  type BaseMdxFrontmatter,
+  blogFrontmatterSchema,
+  docsFrontmatterSchema,
+  FrontmatterError,
+  isPublished,
+  parseFrontmatter,
+} from "./frontmatter";
+import { IncludeError } from "./includes";
+
+export type { TocItem, TocOptions } from "./content";
+export type {
+  Author,
+  BaseMdxFrontmatter,
+  BlogMdxFrontmatter,
+} from "./frontmatter";
 
 // custom components imports
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -20,6 +39,7 @@ import Image from "@/components/markdown/image";
 import Link from "@/components/markdown/link";
 import Outlet from "@/components/markdown/outlet";
 import Files from "@/components/markdown/files";
+import Include from "@/components/markdown/include";
 import {
   Table,
   TableBody,
@@ -43,6 +63,7 @@ const components = {
   a: Link,
   Outlet,
   Files,
+  Include,
   table: Table,
   thead: TableHeader,
   th: TableHead,
@@ -51,99 +72,194 @@ const components = {
   t: TableCell,
 };
 
+type RenderOptions = {
+  assetBase?: string; // relative image paths are resolved against it
+  locale?: string; // of the page, for labels rendered by the components
+};
+
+// renders the function body produced by the content layer (see next-mdx-remote/rsc)
+function renderMdx(
+  compiledSource: string,
+  { assetBase, locale }: RenderOptions,
+) {
+  const jsxRuntime = process.env.NODE_ENV === "production" ? runtime : devRuntime;
+  const hydrateFn = Reflect.construct(Function, ["opts", compiledSource]);
+  const Content: ComponentType<{ components: Record<string, unknown> }> =
+    hydrateFn(jsxRuntime).default;
+  const img = assetBase
+    ? (props: ComponentProps<"img">) =>
+        createElement(Image, {
+          ...props,
+          src: resolveAssetSrc(props.src, assetBase),
+        })
+    : Image;
+  const a = (props: ComponentProps<"a">) =>
+    createElement(Link, { ...props, locale });
+  return createElement(Content, { components: { ...components, img, a } });
+}
+
+// the frontmatter is checked against the schema, a FrontmatterError lists
+// every invalid field
+async function getValidDocument<Schema extends z.ZodObject>(
+  filePath: string,
+  schema: Schema,
+) {
+  const doc = await getDocument<unknown>(filePath);
+  return {
+    ...doc,
+    frontmatter: parseFrontmatter(schema, doc.frontmatter, filePath),
+  };
+}
+
 // can be used for other pages like blogs, Guides etc
-async function parseMdx<Frontmatter>(rawMdx: string) {
-  return await compileMDX<Frontmatter>({
-    source: rawMdx,
-    options: {
-      parseFrontmatter: true,
-      mdxOptions: {
-        rehypePlugins: [
-          preProcess,
-          rehypeCodeTitles,
-          rehypeCodeTitlesWithLogo,
-          rehypePrism,
-          rehypeSlug,
-          rehypeAutolinkHeadings,
-          postProcess,
-        ],
-        remarkPlugins: [remarkGfm],
-      },
-    },
-    components,
-  });
+async function parseMdx<Schema extends z.ZodObject>(
+  filePath: string,
+  schema: Schema,
+  options: RenderOptions = {},
+) {
+  const doc = await getValidDocument(filePath, schema);
+  return { ...doc, content: renderMdx(doc.compiledSource, options) };
+}
+
+// "./cover.png" -> "/blog/my-post/cover.png", absolute and remote urls are kept
+export function resolveAssetSrc<T extends string | undefined>(src: T, base: string) {
+  if (!src || /^([a-z]+:|\/)/i.test(src)) return src;
+  return `${base}/${src.replace(/^\.\//, "")}`;
 }
 
 // logic for docs
 
-export type BaseMdxFrontmatter = {
-  title: string;
-  description: string;
-};
+export function getDocsDocument(filePath: string) {
+  return getValidDocument(filePath, docsFrontmatterSchema);
+}
 
-export async function getDocsForSlug(slug: string) {
+// falls back to the english page when there is no translation
+export async function getDocsForSlug(slug: string, locale = DEFAULT_LOCALE) {
   try {
-    const contentPath = getDocsContentPath(slug);
-    const rawMdx = await fs.readFile(contentPath, "utf-8");
-    return await parseMdx<BaseMdxFrontmatter>(rawMdx);
+    const translatedPath = getDocsContentPath(slug, locale);
+    if (locale != DEFAULT_LOCALE && (await fileExists(translatedPath))) {
+      const res = await parseMdx(translatedPath, docsFrontmatterSchema, {
+        locale,
+      });
+      const frontmatter = await inheritPublishing(slug, res.frontmatter);
+      return { ...res, frontmatter, untranslated: false };
+    }
+    const res = await parseMdx(
+      getDocsContentPath(slug),
+      docsFrontmatterSchema,
+      { locale },
+    );
+    const frontmatter = await inheritPublishing(slug, res.frontmatter);
+    return { ...res, frontmatter, untranslated: locale != DEFAULT_LOCALE };
   } catch (err) {
+    // invalid frontmatter or includes fail the build instead of a missing page
+    if (err instanceof FrontmatterError || err instanceof IncludeError) {
+      throw err;
+    }
     console.log(err);
   }
 }
 
-export async function getDocsTocs(slug: string) {
-  const contentPath = getDocsContentPath(slug);
-  const rawMdx = await fs.readFile(contentPath, "utf-8");
-  // captures between ## - #### can modify accordingly
-  const headingsRegex = /^(#{2,4})\s(.+)$/gm;
-  let match;
-  const extractedHeadings = [];
-  while ((match = headingsRegex.exec(rawMdx)) !== null) {
-    const headingLevel = match[1].length;
-    const headingText = match[2].trim();
-    const slug = sluggify(headingText);
-    extractedHeadings.push({
-      level: headingLevel,
-      text: headingText,
-      href: `#${slug}`,
-    });
+// an unpublished page takes the pages below it along (lib/routes-tree.ts),
+// they get its draft and the latest publishAt of the pages above them so
+// isVisible and isPublished treat them the same way
+async function inheritPublishing(
+  slug: string,
+  frontmatter: BaseMdxFrontmatter,
+): Promise<BaseMdxFrontmatter> {
+  const segments = slug.split("/").filter((it) => it != "");
+  let { draft, publishAt } = frontmatter;
+  for (let i = 1; i < segments.length; i++) {
+    const filePath = getDocsContentPath(segments.slice(0, i).join("/"));
+    // folders without an index.mdx only group their children
+    if (!(await fileExists(filePath))) continue;
+    const parent = (await getDocsDocument(filePath)).frontmatter;
+    if (parent.draft) draft = true;
+    if (
+      parent.publishAt &&
+      (!publishAt || new Date(parent.publishAt) > new Date(publishAt))
+    ) {
+      publishAt = parent.publishAt;
+    }
   }
-  return extractedHeadings;
+  return { ...frontmatter, draft, publishAt };
 }
 
+// stays within the version of the current page, unpublished pages (only
+// rendered in draft mode) aren't listed and have no neighbours
 export function getPreviousNext(path: string) {
-  const index = page_routes.findIndex(({ href }) => href == `/${path}`);
+  const { pages } = findVersion(`/${path}`, VERSIONS);
+  const index = pages.findIndex(({ href }) => href == `/${path}`);
+  if (index == -1) return { prev: undefined, next: undefined };
   return {
-    prev: page_routes[index - 1],
-    next: page_routes[index + 1],
+    prev: pages[index - 1],
+    next: pages[index + 1],
   };
 }
 
-function sluggify(text: string) {
-  const slug = text.toLowerCase().replace(/\s+/g, "-");
-  return slug.replace(/[^a-z0-9-]/g, "");
+// title and description of the docs page or blog post a link points to,
+// undefined for other urls and for pages that aren't published
+export async function getLinkPreview(href: string) {
+  const { locale, path: pathname } = splitLocale(
+    href.split(/[?#]/)[0].replace(/(.)\/+$/, "$1"),
+  );
+  try {
+    const docs = pathname.match(/^\/docs(?:\/(.+))?$/);
+    const blog = pathname.match(/^\/blog\/([^/]+)$/);
+    let filePath: string | undefined;
+    if (docs) {
+      const translatedPath = getDocsContentPath(docs[1] ?? "", locale);
+      filePath =
+        locale != DEFAULT_LOCALE && (await fileExists(translatedPath))
+          ? translatedPath
+          : getDocsContentPath(docs[1] ?? "");
+    } else if (blog && locale == DEFAULT_LOCALE) {
+      filePath = await getBlogFilePath(blog[1]);
+    }
+    if (!filePath) return undefined;
+    const { frontmatter } = await getValidDocument(
+      filePath,
+      docs ? docsFrontmatterSchema : blogFrontmatterSchema,
+    );
+    const published = docs
+      ? isPublished(await inheritPublishing(docs[1] ?? "", frontmatter))
+      : isPublished(frontmatter);
+    if (!published) return undefined;
+    return { title: frontmatter.title, description: frontmatter.description };
+  } catch {
+    return undefined;
+  }
 }
 
-function getDocsContentPath(slug: string) {
-  return path.join(process.cwd(), "/contents/docs/", `${slug}/index.mdx`);
+export function getDocsContentPath(slug: string, locale = DEFAULT_LOCALE) {
+  const docsFolder =
+    locale == DEFAULT_LOCALE ? "/contents/docs/" : `/contents/${locale}/docs/`;
+  return path.join(process.cwd(), docsFolder, `${slug}/index.mdx`);
 }
 
-function justGetFrontmatterFromMD<Frontmatter>(rawMd: string): Frontmatter {
-  return matter(rawMd).data as Frontmatter;
+export async function fileExists(filePath: string) {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
 }
 
 export async function getAllChilds(pathString: string) {
   const items = pathString.split("/").filter((it) => it != "");
-  let page_routes_copy = ROUTES;
+  const version = findVersion(`/${items.join("/")}`, VERSIONS);
+  let page_routes_copy = version.routes;
 
   let prevHref = "";
-  for (const it of items) {
+  for (const it of version.prefix ? items.slice(1) : items) {
     const found = page_routes_copy.find((innerIt) => innerIt.href == `/${it}`);
     if (!found) break;
     prevHref += found.href;
     page_routes_copy = found.items ?? [];
   }
   if (!prevHref) return [];
+  prevHref = `${version.prefix}${prevHref}`;
 
   return await Promise.all(
     page_routes_copy.map(async (it) => {
@@ -154,124 +270,168 @@ export async function getAllChilds(pathString: string) {
         it.href,
         "index.mdx",
       );
-      const raw = await fs.readFile(totalPath, "utf-8");
-      return {
-        ...justGetFrontmatterFromMD<BaseMdxFrontmatter>(raw),
-        href: `/docs${prevHref}${it.href}`,
-      };
+      const href = `/docs${prevHref}${it.href}`;
+      // sections without an index.mdx have a generated page
+      if (!(await fileExists(totalPath))) {
+        const { description = "" } = readMeta(path.dirname(totalPath));
+        return { title: it.title, description, href };
+      }
+      const { frontmatter } = await getDocsDocument(totalPath);
+      return { ...frontmatter, href };
     }),
   );
 }
 
-// for copying the code in pre
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const preProcess = () => (tree: any) => {
-  visit(tree, (node) => {
-    if (node?.type === "element" && node?.tagName === "pre") {
-      const [codeEl] = node.children;
-      if (codeEl.tagName !== "code") return;
-      node.raw = codeEl.children?.[0].value;
-    }
-  });
-};
+// the generated landing page of a noLink section, undefined when the section
+// has an index.mdx of its own, in english or in the locale, or isn't a section
+export async function getDocsSection(
+  pathString: string,
+  locale = DEFAULT_LOCALE,
+) {
+  const href = `/${pathString}`;
+  const section = findVersion(href, VERSIONS).sections.find(
+    (it) => it.href == href,
+  );
+  const filePath = getDocsContentPath(pathString);
+  if (!section || (await fileExists(filePath))) return undefined;
+  if (
+    locale != DEFAULT_LOCALE &&
+    (await fileExists(getDocsContentPath(pathString, locale)))
+  ) {
+    return undefined;
+  }
+  const items = await getAllChilds(pathString);
+  const { description } = readMeta(path.dirname(filePath));
+  return {
+    title: section.title,
+    description: description ?? items.map((it) => it.title).join(", "),
+    untranslated: locale != DEFAULT_LOCALE,
+  };
+}
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const postProcess = () => (tree: any) => {
-  visit(tree, "element", (node) => {
-    if (node?.type === "element" && node?.tagName === "pre") {
-      node.properties["raw"] = node.raw;
-    }
-  });
-};
+const BLOG_FOLDER = path.join(process.cwd(), "/contents/blogs/");
 
-export type Author = {
-  avatar?: string;
-  handle: string;
-  username: string;
-  handleUrl: string;
+// images and other files that can sit next to a post's index.mdx
+const BLOG_ASSET_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
 };
 
-export type BlogMdxFrontmatter = BaseMdxFrontmatter & {
-  date: string;
-  authors: Author[];
-  cover: string;
-};
+// a post is either contents/blogs/<slug>.mdx or contents/blogs/<slug>/index.mdx
+export async function getBlogFilePath(slug: string) {
+  const folderPath = path.join(BLOG_FOLDER, slug, "index.mdx");
+  if (await fileExists(folderPath)) return folderPath;
+  const filePath = path.join(BLOG_FOLDER, `${slug}.mdx`);
+  if (await fileExists(filePath)) return filePath;
+}
 
-export async function getAllBlogStaticPaths() {
+export function getBlogAssetType(filePath: string) {
+  return BLOG_ASSET_TYPES[path.extname(filePath).slice(1).toLowerCase()];
+}
+
+export function getBlogAssetBase(slug: string) {
+  return `/blog/${slug}`;
+}
+
+// every post on disk, including unpublished ones
+async function getBlogSlugs() {
   try {
-    const blogFolder = path.join(process.cwd(), "/contents/blogs/");
-    const res = await fs.readdir(blogFolder);
-    return res.map((file) => file.split(".")[0]);
+    const entries = await fs.readdir(BLOG_FOLDER, { withFileTypes: true });
+    const slugs = await Promise.all(
+      entries.map(async (entry) => {
+        if (entry.isFile() && entry.name.endsWith(".mdx")) {
+          return entry.name.slice(0, -".mdx".length);
+        }
+        if (entry.isDirectory() && (await getBlogFilePath(entry.name))) {
+          return entry.name;
+        }
+      }),
+    );
+    return slugs.filter((it) => !!it) as string[];
   } catch (err) {
     console.log(err);
   }
 }
+
+// published posts only
+export async function getAllBlogStaticPaths() {
+  return (await getAllBlogs()).map((it) => it.slug);
+}
+
+// published posts only, drafts are rendered in draft mode (app/preview)
 export async function getAllBlogs() {
-  const blogFolder = path.join(process.cwd(), "/contents/blogs/");
-  const files = await fs.readdir(blogFolder);
-  const uncheckedRes = await Promise.all(
-    files.map(async (file) => {
-      if (!file.endsWith(".mdx")) return undefined;
-      const filepath = path.join(process.cwd(), `/contents/blogs/${file}`);
-      const rawMdx = await fs.readFile(filepath, "utf-8");
+  const slugs = (await getBlogSlugs()) ?? [];
+  const blogs = await Promise.all(
+    slugs.map(async (slug) => {
+      const filepath = (await getBlogFilePath(slug))!;
+      const { frontmatter } = await getValidDocument(
+        filepath,
+        blogFrontmatterSchema,
+      );
       return {
-        ...justGetFrontmatterFromMD<BlogMdxFrontmatter>(rawMdx),
-        slug: file.split(".")[0],
+        ...frontmatter,
+        cover: resolveAssetSrc(frontmatter.cover, getBlogAssetBase(slug)),
+        slug,
       };
     }),
   );
-  return uncheckedRes.filter((it) => !!it) as (BlogMdxFrontmatter & {
-    slug: string;
-  })[];
+  return blogs.filter(isPublished);
 }
 
 export async function getBlogForSlug(slug: string) {
-  const blogFile = path.join(process.cwd(), "/contents/blogs/", `${slug}.mdx`);
   try {
-    const rawMdx = await fs.readFile(blogFile, "utf-8");
-    return await parseMdx<BlogMdxFrontmatter>(rawMdx);
-  } catch {
+    const blogFile = await getBlogFilePath(slug);
+    if (!blogFile) return undefined;
+    const res = await parseMdx(blogFile, blogFrontmatterSchema, {
+      assetBase: getBlogAssetBase(slug),
+    });
+    const { frontmatter } = res;
+    return {
+      ...res,
+      frontmatter: {
+        ...frontmatter,
+        cover: resolveAssetSrc(frontmatter.cover, getBlogAssetBase(slug)),
+      },
+    };
+  } catch (err) {
+    if (err instanceof FrontmatterError || err instanceof IncludeError) {
+      throw err;
+    }
     return undefined;
   }
 }
 
-function rehypeCodeTitlesWithLogo() {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  return (tree: any) => {
-    visit(tree, "element", (node) => {
-      if (
-        node?.tagName === "div" &&
-        node?.properties?.className?.includes("rehype-code-title")
-      ) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const titleTextNode = node.children.find((child: any) =>
-          child.type === "text"
-        );
-        if (!titleTextNode) return;
-
-        // Extract filename and language
-        const titleText = titleTextNode.value;
-        const match = hasSupportedExtension(titleText);
-        if (!match) return;
-
-        const splittedNames = titleText.split(".");
-        const ext = splittedNames[splittedNames.length - 1];
-        const iconClass = `devicon-${
-          getIconName(
-            ext,
-          )
-        }-plain text-[17px]`;
+// files co-located with folder based posts, served by app/blog/[slug]/[...asset]
+export async function getBlogAsset(slug: string, asset: string) {
+  const folder = path.join(BLOG_FOLDER, slug);
+  const filePath = path.join(folder, asset);
+  const type = getBlogAssetType(filePath);
+  // only known file types, and never outside the post folder
+  if (!type || !filePath.startsWith(`${folder}${path.sep}`)) return undefined;
+  try {
+    return { data: await fs.readFile(filePath), type };
+  } catch {
+    return undefined;
+  }
+}
 
-        // Insert icon before title text
-        if (iconClass) {
-          node.children.unshift({
-            type: "element",
-            tagName: "i",
-            properties: { className: [iconClass, "code-icon"] },
-            children: [],
-          });
-        }
-      }
-    });
-  };
-}
\ No newline at end of file
+export async function getAllBlogAssets() {
+  const slugs = (await getAllBlogStaticPaths()) ?? [];
+  const assets = await Promise.all(
+    slugs.map(async (slug) => {
+      const folder = path.join(BLOG_FOLDER, slug);
+      const files = await fs
+        .readdir(folder, { recursive: true })
+        .catch(() => [] as string[]);
+      return files
+        .filter((file) => !!getBlogAssetType(file))
+        .map((file) => ({ slug, asset: file.split(path.sep) }));
+    }),
+  );
+  return assets.flat();
+}
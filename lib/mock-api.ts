@@ -0,0 +1,48 @@
+// canned responses for the /api/... urls used in the docs, so goFetch examples
+// run offline in scripts/run-examples.ts and in the playground
+
+export type MockRoute = {
+  path: string; // regular expression matched against the pathname
+  status?: number;
+  body: unknown; // sent as json, or as is when text is set
+  text?: boolean;
+};
+
+const user = { id: "123", name: "Jane Doe", email: "jane@example.com" };
+const posts = [{ id: 1, title: "Hello" }];
+
+// the first matching route wins, everything else is a 404
+export const MOCK_API_ROUTES: MockRoute[] = [
+  { path: "^/api/users?/[^/]+/posts$", body: posts },
+  { path: "^/api/users?/[^/]+/settings$", body: { theme: "dark" } },
+  { path: "^/api/users?(/[^/]+)?$", body: user },
+  { path: "^/api/posts$", body: posts },
+  { path: "^/api/data$", body: { message: "Hello, world!" } },
+  { path: "^/api/text$", body: "Hello, world!", text: true },
+  { path: "^/api/empty$", status: 204, body: null, text: true },
+  { path: "^/api/null$", body: null },
+  {
+    path: "^/api/protected-resource$",
+    status: 401,
+    body: { message: "Unauthorized" },
+  },
+];
+
+export const MOCK_API_NOT_FOUND: MockRoute = {
+  path: "",
+  status: 404,
+  body: { message: "Not found" },
+};
+
+export async function mockFetch(input: string | URL | Request) {
+  const url = new URL(
+    input instanceof Request ? input.url : input.toString(),
+    "http://localhost",
+  );
+  const route =
+    MOCK_API_ROUTES.find((it) => new RegExp(it.path).test(url.pathname)) ??
+    MOCK_API_NOT_FOUND;
+  const init = { status: route.status ?? 200 };
+  if (route.text) return new Response(route.body as string | null, init);
+  return Response.json(route.body, init);
+}
@@ -0,0 +1,345 @@
+// open graph images for docs pages and blog posts, served by app/og/...
+// fonts and the logo are read from assets/og so images render without network
+
+import path from "path";
+import { promises as fs } from "fs";
+import type { Metadata } from "next";
+import { ImageResponse } from "next/og";
+import type { Author } from "./frontmatter";
+import {
+  getBlogAsset,
+  getBlogAssetBase,
+  getBlogAssetType,
+  resolveAssetSrc,
+} from "./markdown";
+import { SITE_NAME } from "./site";
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+const ASSETS_DIR = path.join(process.cwd(), "/assets/og/");
+const PUBLIC_DIR = path.join(process.cwd(), "/public/");
+const MAX_DESCRIPTION = 160;
+// image types satori can draw
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/svg+xml"];
+// remote covers and avatars that take longer are left out, so a build
+// without network access doesn't hang on them
+const FETCH_TIMEOUT = 5000;
+
+const COLORS = {
+  background: "#09090b",
+  foreground: "#fafafa",
+  muted: "#a1a1aa",
+  border: "#27272a",
+};
+
+type OgAssets = {
+  fonts: NonNullable<ConstructorParameters<typeof ImageResponse>[1]>["fonts"];
+  logo: string;
+};
+
+let assets: Promise<OgAssets> | undefined;
+
+function loadAssets() {
+  assets ??= (async () => {
+    const read = (file: string) => fs.readFile(path.join(ASSETS_DIR, file));
+    const [regular, bold, mono, logo] = await Promise.all([
+      read("space-grotesk-400.woff"),
+      read("space-grotesk-700.woff"),
+      read("space-mono-400.woff"),
+      read("logo.svg"),
+    ]);
+    return {
+      fonts: [
+        { name: "Space Grotesk", data: regular, weight: 400 },
+        { name: "Space Grotesk", data: bold, weight: 700 },
+        { name: "Space Mono", data: mono, weight: 400 },
+      ],
+      logo: toDataUri(logo, "image/svg+xml"),
+    };
+  })();
+  return assets;
+}
+
+// "" for the docs root, "v1/fundamentals" for older versions
+export function getDocsOgImageHref(slug: string) {
+  return `/og/docs${slug ? `/${slug}` : ""}`;
+}
+
+export function getBlogOgImageHref(slug: string) {
+  return `/og/blog/${slug}`;
+}
+
+type OgMetadataOptions = {
+  title: string;
+  description: string;
+  href: string;
+  image: string;
+  publishedTime?: string;
+  authors?: string[];
+};
+
+export function getOgMetadata({
+  title,
+  description,
+  href,
+  image,
+  publishedTime,
+  authors,
+}: OgMetadataOptions): Metadata {
+  const images = [{ url: image, ...OG_IMAGE_SIZE, alt: title }];
+  return {
+    openGraph: {
+      type: "article",
+      siteName: SITE_NAME,
+      url: href,
+      title,
+      description,
+      images,
+      publishedTime,
+      authors,
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images,
+    },
+  };
+}
+
+type DocsImageProps = {
+  title: string;
+  description: string;
+  sections: string[]; // e.g. ["Usage Guides", "Advanced Usage and Patterns"]
+};
+
+export async function renderDocsImage({
+  title,
+  description,
+  sections,
+}: DocsImageProps) {
+  const { fonts, logo } = await loadAssets();
+  return new ImageResponse(
+    <Frame logo={logo}>
+      <div
+        style={{
+          display: "flex",
+          fontFamily: "Space Mono",
+          fontSize: 26,
+          color: COLORS.muted,
+        }}
+      >
+        {["Docs", ...sections].join("  ›  ")}
+      </div>
+      <div
+        style={{
+          display: "flex",
+          fontSize: 68,
+          fontWeight: 700,
+          lineHeight: 1.15,
+          marginTop: 24,
+        }}
+      >
+        {title}
+      </div>
+      <div
+        style={{
+          display: "flex",
+          fontSize: 32,
+          lineHeight: 1.4,
+          color: COLORS.muted,
+          marginTop: 24,
+        }}
+      >
+        {truncate(description, MAX_DESCRIPTION)}
+      </div>
+    </Frame>,
+    { ...OG_IMAGE_SIZE, fonts },
+  );
+}
+
+type BlogImageProps = {
+  slug: string;
+  title: string;
+  date: string; // already formatted
+  cover?: string;
+  authors: Author[];
+};
+
+export async function renderBlogImage({
+  slug,
+  title,
+  date,
+  cover,
+  authors,
+}: BlogImageProps) {
+  const { fonts, logo } = await loadAssets();
+  const [coverSrc, ...avatars] = await Promise.all([
+    loadImage(cover, slug),
+    ...authors.map((it) => loadImage(it.avatar, slug)),
+  ]);
+  return new ImageResponse(
+    <div style={{ display: "flex", width: "100%", height: "100%" }}>
+      <Frame logo={logo}>
+        <div
+          style={{
+            display: "flex",
+            fontFamily: "Space Mono",
+            fontSize: 26,
+            color: COLORS.muted,
+          }}
+        >
+          {date}
+        </div>
+        <div
+          style={{
+            display: "flex",
+            fontSize: coverSrc ? 56 : 68,
+            fontWeight: 700,
+            lineHeight: 1.15,
+            marginTop: 24,
+          }}
+        >
+          {title}
+        </div>
+        <div style={{ display: "flex", gap: 28, marginTop: 40 }}>
+          {authors.map((author, index) => (
+            <div
+              key={author.username}
+              style={{ display: "flex", alignItems: "center", gap: 14 }}
+            >
+              {avatars[index] ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  src={avatars[index]}
+                  alt=""
+                  width={56}
+                  height={56}
+                  style={{ borderRadius: 28 }}
+                />
+              ) : (
+                <div
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    width: 56,
+                    height: 56,
+                    borderRadius: 28,
+                    background: COLORS.border,
+                    fontSize: 22,
+                  }}
+                >
+                  {author.username.slice(0, 2).toUpperCase()}
+                </div>
+              )}
+              <div style={{ display: "flex", fontSize: 26 }}>
+                {author.username}
+              </div>
+            </div>
+          ))}
+        </div>
+      </Frame>
+      {coverSrc && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={coverSrc}
+          alt=""
+          width={440}
+          height={OG_IMAGE_SIZE.height}
+          style={{
+            objectFit: "cover",
+            borderLeft: `1px solid ${COLORS.border}`,
+          }}
+        />
+      )}
+    </div>,
+    { ...OG_IMAGE_SIZE, fonts },
+  );
+}
+
+function Frame({
+  logo,
+  children,
+}: {
+  logo: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        flex: 1,
+        height: "100%",
+        padding: 72,
+        background: COLORS.background,
+        color: COLORS.foreground,
+        fontFamily: "Space Grotesk",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 16 }}>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={logo} alt="" width={44} height={44} />
+        <div
+          style={{ display: "flex", fontFamily: "Space Mono", fontSize: 30 }}
+        >
+          {SITE_NAME}
+        </div>
+      </div>
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "center",
+          flex: 1,
+        }}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
+
+// blog covers and avatars as data uris, local files are read from the post
+// folder or public, remote ones are skipped when they can't be fetched in
+// FETCH_TIMEOUT
+async function loadImage(src: string | undefined, slug: string) {
+  if (!src) return undefined;
+  try {
+    if (/^https?:/.test(src)) {
+      const res = await fetch(src, {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT),
+      });
+      const type = res.headers.get("content-type")?.split(";")[0] ?? "";
+      if (!res.ok || !IMAGE_TYPES.includes(type)) return undefined;
+      return toDataUri(Buffer.from(await res.arrayBuffer()), type);
+    }
+    const assetBase = `${getBlogAssetBase(slug)}/`;
+    const resolved = resolveAssetSrc(src, getBlogAssetBase(slug));
+    const file = resolved.startsWith(assetBase)
+      ? await getBlogAsset(slug, resolved.slice(assetBase.length))
+      : await readPublicFile(resolved);
+    if (!file || !IMAGE_TYPES.includes(file.type)) return undefined;
+    return toDataUri(file.data, file.type);
+  } catch {
+    return undefined;
+  }
+}
+
+async function readPublicFile(src: string) {
+  const filePath = path.join(PUBLIC_DIR, src);
+  const type = getBlogAssetType(filePath);
+  if (!type) return undefined;
+  return { data: await fs.readFile(filePath), type };
+}
+
+function toDataUri(data: Buffer, type: string) {
+  return `data:${type};base64,${data.toString("base64")}`;
+}
+
+function truncate(text: string, length: number) {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length);
+  return `${cut.slice(0, cut.lastIndexOf(" "))}…`;
+}
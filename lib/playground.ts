@@ -0,0 +1,43 @@
+// links to /playground carry the code in the url hash, e.g. /playground#code=...
+// (kept free of node imports, it runs in the browser)
+
+export const PLAYGROUND_PATH = "/playground";
+
+// written by scripts/build-playground.ts from the installed go-errors
+export const PLAYGROUND_LIBRARY_URL = "/playground/go-errors.js";
+export const PLAYGROUND_RUNTIME_URL = "/playground/runtime.js";
+
+const HASH_KEY = "code=";
+
+export function getPlaygroundHref(code: string) {
+  return `${PLAYGROUND_PATH}#${HASH_KEY}${encodeCode(code)}`;
+}
+
+export function getCodeFromHash(hash: string) {
+  const value = hash.replace(/^#/, "");
+  if (!value.startsWith(HASH_KEY)) return undefined;
+  try {
+    return decodeCode(value.slice(HASH_KEY.length));
+  } catch {
+    return undefined;
+  }
+}
+
+// utf-8 safe base64url
+function encodeCode(code: string) {
+  let binary = "";
+  new TextEncoder().encode(code).forEach((it) => {
+    binary += String.fromCharCode(it);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function decodeCode(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (it) => it.charCodeAt(0)),
+  );
+}
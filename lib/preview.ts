@@ -0,0 +1,24 @@
+// draft mode, turned on by app/preview with the PREVIEW_SECRET, renders
+// unpublished pages (draft: true or a future publishAt) in place
+
+import { draftMode } from "next/headers";
+import { isPublished } from "./frontmatter";
+
+export const PREVIEW_DISABLE_PATH = "/preview/disable";
+
+export async function isVisible(frontmatter: {
+  draft?: boolean;
+  publishAt?: string;
+}) {
+  return isPublished(frontmatter) || (await draftMode()).isEnabled;
+}
+
+// only paths on this site, "//example.com" would leave it
+export function getPreviewRedirect(path: string | null) {
+  return path?.startsWith("/") && !path.startsWith("//") ? path : "/docs";
+}
+
+// "/preview/disable?path=/docs", where to go once draft mode is off
+export function getDisablePreviewHref(path: string) {
+  return `${PREVIEW_DISABLE_PATH}?path=${encodeURIComponent(path)}`;
+}
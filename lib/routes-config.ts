@@ -1,108 +1,108 @@
 // for page navigation & to sort on leftbar
 
+import path from "path";
+import {
+  generateRoutes,
+  getVersionFolders,
+  mergeRoutes,
+  readMeta,
+} from "./routes-tree";
+
 export type EachRoute = {
   title: string;
   href: string;
-  noLink?: true; // noLink will create a route segment (section) but cannot be navigated
+  noLink?: true; // noLink will create a route segment (section), its page lists the pages below it
   items?: EachRoute[];
   tag?: string;
 };
 
-// Base path for documentation pages
-const DOCS_BASE_PATH = "/docs";
-
-export const ROUTES: EachRoute[] = [
-  {
-    title: "Getting Started",
-    href: "/getting-started",
-    noLink: true,
-    items: [
-      { title: "Introduction", href: "/introduction" },
-      { title: "Installation", href: "/installation" },
-    ],
-  },
-  {
-    title: "Fundamentals",
-    href: "/fundamentals",
-    noLink: true,
-    items: [
-      {
-        title: "Introduction to Go-style Errors",
-        href: "/introduction-to-go-style-errors",
-      },
-      { title: "The Result Type", href: "/the-result-type" },
-      { title: "Core Functions Overview", href: "/core-functions-overview" },
-      { title: "Error Handling in go-errors", href: "/error-handling-in-go-errors" },
-      {
-        title: "Working with Custom Error Types",
-        href: "/working-with-custom-error-types",
-      },
-    ],
-  },
-  {
-    title: "API Reference",
-    href: "/api-reference",
-    noLink: true,
-    items: [
-      { title: "goSync Function", href: "/go-sync-function" },
-      { title: "go Function", href: "/go-function" },
-      { title: "goFetch Function", href: "/go-fetch-function" },
-      { title: "unifiedGo Function", href: "/unified-go-function" },
-      { title: "Type Definitions", href: "/type-definitions" }
-    ],
-  },
-  {
-    title: "Usage Guides",
-    href: "/usage-guides",
-    noLink: true,
-    items: [
-      { title: "Basic Usage Patterns", href: "/basic-usage-patterns" },
-      {
-        title: "Making HTTP Requests with goFetch",
-        href: "/making-http-requests-with-go-fetch",
-      },
-      {
-        title: "Advanced Usage and Patterns",
-        href: "/advanced-usage-and-patterns",
-        noLink: true,
-        items: [
-          {
-            title: "Advanced Features",
-            href: "/advanced-features",
-          },
-          {
-            title: "Advanced Patterns",
-            href: "/advanced-patterns",
-          }
-        ]
-      },
-      {
-        title: "Asynchronous Programming with go-errors",
-        href: "/asynchronous-programming-with-go-errors",
-      },
-    ],
-  },
+type Page = { title: string; href: string };
+
+export type DocsVersion = {
+  name: string;
+  prefix: string; // "" for the latest docs, "/v1" for contents/docs/v1
+  latest: boolean;
+  routes: EachRoute[];
+  pages: Page[]; // hrefs include the prefix
+  sections: Page[]; // noLink routes, rendered as generated landing pages
+};
+
+const DOCS_DIR = path.join(process.cwd(), "/contents/docs/");
+
+// The tree is generated from contents/docs (see lib/routes-tree.ts).
+// Entries here are matched by href and override the generated ones,
+// e.g. { title: "API", href: "/api-reference", tag: "New" }
+export const ROUTE_OVERRIDES: EachRoute[] = [];
+
+// /docs/latest/... and /docs/<latest version>/... redirect to /docs/...
+export const LATEST_ALIAS = "latest";
+
+const versionFolders = getVersionFolders(DOCS_DIR);
+
+export const LATEST_VERSION = readMeta(DOCS_DIR).version ?? LATEST_ALIAS;
+
+export const ROUTES: EachRoute[] = mergeRoutes(
+  generateRoutes(DOCS_DIR, versionFolders),
+  ROUTE_OVERRIDES,
+);
+
+// latest first, the latest docs live directly in contents/docs
+export const VERSIONS: DocsVersion[] = [
+  createVersion(LATEST_VERSION, "", ROUTES),
+  ...versionFolders
+    .filter((it) => it != LATEST_VERSION)
+    .map((it) =>
+      createVersion(it, `/${it}`, generateRoutes(path.join(DOCS_DIR, it))),
+    ),
 ];
 
-type Page = { title: string; href: string };
+function createVersion(
+  name: string,
+  prefix: string,
+  routes: EachRoute[],
+): DocsVersion {
+  const collect = (include: (node: EachRoute) => boolean) =>
+    routes
+      .map((it) =>
+        getRecurrsiveAllLinks({ ...it, href: `${prefix}${it.href}` }, include),
+      )
+      .flat();
+  return {
+    name,
+    prefix,
+    latest: prefix == "",
+    routes,
+    pages: collect((node) => !node.noLink),
+    sections: collect((node) => !!node.noLink && !!node.items?.length),
+  };
+}
 
-function getRecurrsiveAllLinks(node: EachRoute, parentPath: string = ""): Page[] {
+function getRecurrsiveAllLinks(
+  node: EachRoute,
+  include: (node: EachRoute) => boolean,
+) {
   const ans: Page[] = [];
-  // Build the current path correctly
-  const currentPath = parentPath + node.href;
-  
-  if (!node.noLink) {
-    ans.push({ title: node.title, href: currentPath });
+  if (include(node)) {
+    ans.push({ title: node.title, href: node.href });
   }
-  
   node.items?.forEach((subNode) => {
-    // Pass the current path as the parent path for child nodes
-    ans.push(...getRecurrsiveAllLinks(subNode, currentPath));
+    const temp = { ...subNode, href: `${node.href}${subNode.href}` };
+    ans.push(...getRecurrsiveAllLinks(temp, include));
   });
-  
   return ans;
 }
 
-export const page_routes = ROUTES.map((route) => 
-  getRecurrsiveAllLinks(route, DOCS_BASE_PATH)
-).flat();
+// every page of every version, the latest ones first
+export const page_routes = VERSIONS.map((it) => it.pages).flat();
+
+// section landing pages of every version, unless an index.mdx replaces them
+export const section_routes = VERSIONS.map((it) => it.sections).flat();
+
+// slugs of the prerendered docs pages, the root of every version (/docs,
+// /docs/v1) included. [locale] routes 404 on anything else
+export function getDocsStaticParams() {
+  const roots = VERSIONS.map((it) => ({ title: it.name, href: it.prefix }));
+  return [...roots, ...page_routes, ...section_routes].map((item) => ({
+    slug: item.href.split("/").slice(1),
+  }));
+}
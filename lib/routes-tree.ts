@@ -0,0 +1,133 @@
+// builds the sidebar tree from the contents/docs folder structure
+
+import path from "path";
+import fs from "fs";
+import matter from "gray-matter";
+import type { EachRoute } from "./routes-config";
+import type { BaseMdxFrontmatter } from "./markdown";
+import { isPublished } from "./frontmatter";
+import { toTitleCase } from "./utils";
+
+// optional per-folder file to name a section and order its children
+export const META_FILE = "_meta.json";
+
+// folders like contents/docs/v1 hold older versions of the docs
+export const VERSION_FOLDER_PATTERN = /^v\d+(\.\d+)*$/;
+
+export type FolderMeta = {
+  title?: string;
+  description?: string; // of the generated section page
+  order?: number;
+  tag?: string;
+  hidden?: boolean;
+  noLink?: boolean;
+  pages?: string[]; // child folder names, these come first in the given order
+  version?: string; // only read from contents/docs, names the latest version
+};
+
+type SortableRoute = EachRoute & { segment: string; order?: number };
+
+export function generateRoutes(dir: string, skip: string[] = []): EachRoute[] {
+  if (!fs.existsSync(dir)) return [];
+  const meta = readMeta(dir);
+  const nodes = fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !skip.includes(entry.name))
+    .map((entry) => readRoute(path.join(dir, entry.name), entry.name))
+    .filter((it) => !!it);
+
+  return sortRoutes(nodes, meta.pages ?? []).map(
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    ({ segment, order, ...route }) => route,
+  );
+}
+
+// newest first, e.g. ["v2", "v1"]
+export function getVersionFolders(dir: string) {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .filter(
+      (entry) =>
+        entry.isDirectory() && VERSION_FOLDER_PATTERN.test(entry.name),
+    )
+    .map((entry) => entry.name)
+    .sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
+}
+
+// hand-authored routes win over generated ones with the same href,
+// routes that don't exist on disk are appended at the end
+export function mergeRoutes(
+  generated: EachRoute[],
+  overrides: EachRoute[],
+): EachRoute[] {
+  const merged = generated.map((route) => {
+    const override = overrides.find((it) => it.href == route.href);
+    if (!override) return route;
+    return {
+      ...route,
+      ...override,
+      items: override.items
+        ? mergeRoutes(route.items ?? [], override.items)
+        : route.items,
+    };
+  });
+  const extra = overrides.filter(
+    (it) => !generated.some((route) => route.href == it.href),
+  );
+  return [...merged, ...extra];
+}
+
+function readRoute(dir: string, segment: string): SortableRoute | undefined {
+  const meta = readMeta(dir);
+  const frontmatter = readFrontmatter(path.join(dir, "index.mdx"));
+  if (meta.hidden ?? frontmatter?.hidden) return undefined;
+  // an unpublished page takes the pages below it along
+  if (frontmatter && !isPublished(frontmatter)) return undefined;
+
+  const items = generateRoutes(dir);
+  // folder without an index.mdx and without pages below it
+  if (!frontmatter && !items.length) return undefined;
+
+  const route: SortableRoute = {
+    title:
+      meta.title ??
+      frontmatter?.sidebarTitle ??
+      frontmatter?.title ??
+      toTitleCase(segment),
+    href: `/${segment}`,
+    segment,
+    order: meta.order ?? frontmatter?.order,
+  };
+  // a folder without index.mdx only groups its children
+  if (!frontmatter || meta.noLink) route.noLink = true;
+  const tag = meta.tag ?? frontmatter?.tag;
+  if (tag) route.tag = tag;
+  if (items.length) route.items = items;
+  return route;
+}
+
+function sortRoutes(routes: SortableRoute[], pages: string[]) {
+  const rank = (route: SortableRoute) => {
+    const index = pages.indexOf(route.segment);
+    return index == -1 ? Infinity : index;
+  };
+  return [...routes].sort(
+    (a, b) =>
+      rank(a) - rank(b) ||
+      (a.order ?? Infinity) - (b.order ?? Infinity) ||
+      a.title.localeCompare(b.title),
+  );
+}
+
+export function readMeta(dir: string): FolderMeta {
+  const metaPath = path.join(dir, META_FILE);
+  if (!fs.existsSync(metaPath)) return {};
+  return JSON.parse(fs.readFileSync(metaPath, "utf-8")) as FolderMeta;
+}
+
+export function readFrontmatter(filePath: string) {
+  if (!fs.existsSync(filePath)) return undefined;
+  return matter(fs.readFileSync(filePath, "utf-8"))
+    .data as Partial<BaseMdxFrontmatter>;
+}
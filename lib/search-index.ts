@@ -0,0 +1,125 @@
+// full-text search over the static index written by scripts/build-search-index.ts
+// (kept free of node imports, it runs in the search dialog)
+
+export const SEARCH_INDEX_URL = "/search-index.json";
+
+export type IndexedPage = {
+  title: string;
+  href: string;
+  section: string; // e.g. "Usage Guides › Advanced Usage and Patterns"
+};
+
+export type IndexedSection = {
+  page: number; // position in SearchIndex.pages
+  heading: string; // empty for the content above the first heading
+  anchor: string; // id generated by rehype-slug
+  text: string;
+  code: string[]; // identifiers found in code blocks
+};
+
+export type SearchIndex = {
+  pages: IndexedPage[];
+  sections: IndexedSection[];
+};
+
+export type SnippetPart = { text: string; match?: boolean };
+
+export type SearchHit = IndexedPage & {
+  heading: string;
+  anchor: string;
+  snippet: SnippetPart[];
+  score: number;
+};
+
+// title and heading hits rank above prose
+const WEIGHTS = { title: 10, heading: 6, code: 3, text: 1 };
+const MAX_HITS_PER_PAGE = 3;
+const SNIPPET_LENGTH = 140;
+
+export async function loadSearchIndex() {
+  const res = await fetch(SEARCH_INDEX_URL);
+  if (!res.ok) return undefined;
+  return (await res.json()) as SearchIndex;
+}
+
+export function searchIndex(index: SearchIndex, query: string, limit = 20) {
+  const terms = getTerms(query);
+  if (!terms.length) return [];
+  const phrase = terms.join(" ");
+
+  const hits: SearchHit[] = [];
+  index.sections.forEach((section) => {
+    const page = index.pages[section.page];
+    const fields = {
+      // the page title only really counts for its intro section
+      title: page.title.toLowerCase(),
+      heading: section.heading.toLowerCase(),
+      code: section.code.join(" ").toLowerCase(),
+      text: section.text.toLowerCase(),
+    };
+
+    let score = 0;
+    for (const term of terms) {
+      let termScore = 0;
+      if (fields.title.includes(term))
+        termScore += section.anchor ? 1 : WEIGHTS.title;
+      if (fields.heading.includes(term)) termScore += WEIGHTS.heading;
+      if (fields.code.includes(term)) termScore += WEIGHTS.code;
+      if (fields.text.includes(term)) termScore += WEIGHTS.text;
+      // every term has to match somewhere in the section
+      if (!termScore) return;
+      score += termScore;
+    }
+    if (terms.length > 1 && fields.text.includes(phrase)) score += WEIGHTS.heading;
+
+    hits.push({
+      ...page,
+      heading: section.heading,
+      anchor: section.anchor,
+      snippet: getSnippet(section.text, terms),
+      score,
+    });
+  });
+
+  const perPage: Record<string, number> = {};
+  return hits
+    .sort((a, b) => b.score - a.score)
+    .filter((hit) => {
+      perPage[hit.href] = (perPage[hit.href] ?? 0) + 1;
+      return perPage[hit.href] <= MAX_HITS_PER_PAGE;
+    })
+    .slice(0, limit);
+}
+
+export function highlight(text: string, terms: string[]): SnippetPart[] {
+  if (!terms.length) return [{ text }];
+  const regex = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "i");
+  // with a capturing group every odd part is a match
+  return text
+    .split(regex)
+    .map((it, index) => (index % 2 ? { text: it, match: true } : { text: it }))
+    .filter((it) => it.text != "");
+}
+
+export function getTerms(query: string) {
+  return query.toLowerCase().split(/\s+/).filter((it) => it != "");
+}
+
+function getSnippet(text: string, terms: string[]) {
+  const lower = text.toLowerCase();
+  const positions = terms
+    .map((term) => lower.indexOf(term))
+    .filter((it) => it != -1);
+  const first = positions.length ? Math.min(...positions) : 0;
+  const start = Math.max(0, first - 40);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  let snippet = text.slice(start, end);
+  if (start > 0) snippet = `…${snippet}`;
+  if (end < text.length) snippet = `${snippet}…`;
+  return highlight(snippet, terms);
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
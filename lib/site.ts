@@ -0,0 +1,31 @@
+// absolute urls are needed for feeds, sitemaps and metadata,
+// set NEXT_PUBLIC_SITE_URL to the deployed origin
+export const SITE_URL = (
+  process.env.NEXT_PUBLIC_SITE_URL ??
+  (process.env.VERCEL_PROJECT_PRODUCTION_URL
+    ? `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`
+    : "http://localhost:3000")
+).replace(/\/$/, "");
+
+export const SITE_NAME = "go-style-errors";
+
+// "Edit this page" links open the content file in this (the docs) repository,
+// forks can point them at their own repository
+export const REPO_URL = (
+  process.env.NEXT_PUBLIC_REPO_URL ??
+  "https://github.com/ashkansamadiyan/go-style-errors-docs"
+).replace(/\/$/, "");
+export const REPO_BRANCH = process.env.NEXT_PUBLIC_REPO_BRANCH ?? "main";
+
+// links in docs pages and posts to other pages show the title and
+// description of the page when hovered (components/markdown/link.tsx)
+export const LINK_PREVIEWS = true;
+
+// pages without a commit for longer than this are marked as possibly outdated
+export const OUTDATED_AFTER_DAYS = 365;
+
+// "/blog/x" -> "https://example.com/blog/x"
+export function absoluteUrl(href: string) {
+  if (/^[a-z]+:/i.test(href)) return href;
+  return `${SITE_URL}${href.startsWith("/") ? "" : "/"}${href}`;
+}
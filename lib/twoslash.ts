@@ -0,0 +1,204 @@
+// type information for code fences marked `twoslash`, e.g. ```typescript twoslash
+// identifiers show their type on hover, `// ^?` queries and compiler errors
+// are rendered below their line (see components/markdown/twoslash-popover.tsx)
+
+import path from "path";
+import fs from "fs";
+import { createHash } from "crypto";
+import ts from "typescript";
+import {
+  createTwoslasher,
+  type NodeError,
+  type NodeHover,
+  type NodeQuery,
+  type TwoslashInstance,
+  type TwoslashReturn,
+} from "twoslash";
+import { visit } from "unist-util-visit";
+
+const LANGS = ["ts", "typescript", "tsx"];
+const LIBRARY = "go-errors";
+
+let twoslasher: TwoslashInstance | undefined;
+
+function getTwoslasher() {
+  twoslasher ??= createTwoslasher({
+    compilerOptions: {
+      strict: true,
+      target: ts.ScriptTarget.ES2022,
+      module: ts.ModuleKind.ESNext,
+      moduleResolution: ts.ModuleResolutionKind.Bundler,
+      lib: ["lib.es2022.d.ts", "lib.dom.d.ts"],
+      // the virtual file system doesn't see node_modules outside of its root
+      paths: getLibraryPaths(),
+    },
+    // errors are shown in the rendered block instead of failing the build
+    handbookOptions: { noErrorValidation: true },
+  });
+  return twoslasher;
+}
+
+// the type definitions of the installed go-errors, without them imports of
+// go-errors are shown as errors in the block
+function getLibraryTypes() {
+  const { resolvedModule } = ts.resolveModuleName(
+    LIBRARY,
+    path.join(process.cwd(), "index.ts"),
+    { moduleResolution: ts.ModuleResolutionKind.Bundler },
+    ts.sys,
+  );
+  return resolvedModule?.resolvedFileName;
+}
+
+function getLibraryPaths() {
+  const types = getLibraryTypes();
+  return types ? { [LIBRARY]: [types] } : undefined;
+}
+
+let typesHash: string | undefined;
+
+// part of the content cache key (lib/content.ts), so hovers are recompiled
+// when the go-errors types change
+export function getTypesHash() {
+  if (typesHash == undefined) {
+    const types = getLibraryTypes();
+    typesHash = types
+      ? createHash("sha1").update(fs.readFileSync(types)).digest("hex")
+      : "";
+  }
+  return typesHash;
+}
+
+// runs before preProcess, so the copied code has the annotations removed
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const rehypeTwoslash = () => (tree: any) => {
+  visit(tree, "element", (node) => {
+    if (node.tagName !== "pre") return;
+    const [codeEl] = node.children;
+    if (codeEl?.tagName !== "code") return;
+    const meta: string = codeEl.data?.meta ?? "";
+    if (!meta.split(/\s+/).includes("twoslash")) return;
+
+    const lang = getLang(codeEl.properties?.className);
+    if (!lang) return;
+    const code: string = codeEl.children?.[0]?.value ?? "";
+    try {
+      const result = getTwoslasher()(code, lang == "tsx" ? "tsx" : "ts");
+      codeEl.children = [{ type: "text", value: result.code }];
+      node.twoslash = result;
+    } catch (err) {
+      // a block without types is a bug, CI builds fail on it
+      if (process.env.CI) throw err;
+      console.error(err);
+    }
+  });
+};
+
+// runs after rehypePrism, which splits the code into .code-line spans
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const rehypeTwoslashRender = () => (tree: any) => {
+  visit(tree, "element", (node) => {
+    const result: TwoslashReturn | undefined = node.twoslash;
+    if (node.tagName !== "pre" || !result) return;
+    const codeEl = node.children[0];
+    node.properties.twoslash = "";
+
+    const lines = codeEl.children.filter(
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (it: any) => it.properties?.className?.includes("code-line"),
+    );
+    result.hovers.forEach((it) =>
+      decorate(lines[it.line], it, "twoslash-hover"),
+    );
+    result.errors.forEach((it) =>
+      decorate(lines[it.line], it, "twoslash-error"),
+    );
+
+    // queries and error messages get their own row below the line
+    const rows = [...result.queries, ...result.errors].sort(
+      (a, b) => b.line - a.line || b.character - a.character,
+    );
+    rows.forEach((it) => {
+      const line = lines[it.line];
+      if (!line) return;
+      codeEl.children.splice(codeEl.children.indexOf(line) + 1, 0, toRow(it));
+    });
+  });
+};
+
+function getLang(className: unknown) {
+  const classes = Array.isArray(className) ? className : [];
+  const lang = classes
+    .find((it) => String(it).startsWith("language-"))
+    ?.slice("language-".length)
+    .split(":")[0];
+  return LANGS.includes(lang) ? lang : undefined;
+}
+
+// wraps the characters of the node in spans, splitting the text nodes of the line
+function decorate(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  line: any,
+  node: NodeHover | NodeError,
+  className: string,
+) {
+  if (!line) return;
+  const start = node.character;
+  const end = node.character + node.length;
+  let offset = 0;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  visit(line, "text", (text: any, index, parent: any) => {
+    const from = offset;
+    offset += text.value.length;
+    if (offset <= start || from >= end || index == undefined) return;
+    if (parent.properties?.className?.includes(className)) return;
+
+    const cut = [
+      Math.max(start - from, 0),
+      Math.min(end - from, text.value.length),
+    ];
+    const parts = [
+      { type: "text", value: text.value.slice(0, cut[0]) },
+      {
+        type: "element",
+        tagName: "span",
+        properties: { className: [className], "data-twoslash": getText(node) },
+        children: [{ type: "text", value: text.value.slice(cut[0], cut[1]) }],
+      },
+      { type: "text", value: text.value.slice(cut[1]) },
+    ].filter((it) => it.type == "element" || it.value != "");
+    parent.children.splice(index, 1, ...parts);
+    // skip the text nodes just added, their characters are already counted
+    return index + parts.length;
+  });
+}
+
+function toRow(node: NodeQuery | NodeError) {
+  const isError = node.type == "error";
+  return {
+    type: "element",
+    tagName: "span",
+    properties: {
+      className: [
+        "code-line",
+        isError ? "twoslash-error-line" : "twoslash-query",
+      ],
+    },
+    children: [
+      { type: "text", value: " ".repeat(isError ? 0 : node.character) },
+      {
+        type: "element",
+        tagName: "span",
+        properties: { className: ["twoslash-popup"] },
+        children: [{ type: "text", value: getText(node) }],
+      },
+      { type: "text", value: "\n" },
+    ],
+  };
+}
+
+function getText(node: NodeHover | NodeQuery | NodeError) {
+  if (node.type == "error") return node.text;
+  return node.docs ? `${node.text}\n\n${node.docs}` : node.text;
+}
@@ -1,6 +1,7 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
-import { EachRoute, ROUTES } from "./routes-config";
+import type { EachRoute } from "./routes-config";
+import { DEFAULT_LOCALE, getLocale } from "./i18n";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -41,16 +42,74 @@ export function helperSearch(
   return res;
 }
 
-export function advanceSearch(query: string) {
-  return ROUTES.map((node) =>
+export function advanceSearch(query: string, routes: EachRoute[]) {
+  return routes.map((node) =>
     helperSearch(query, node, "", 1, query.length == 0 ? 2 : undefined)
   ).flat();
 }
 
+// "/v1/fundamentals" -> the v1 entry, unversioned paths belong to the latest docs
+export function findVersion<T extends { prefix: string }>(
+  path: string,
+  versions: T[],
+) {
+  const found = versions.find(
+    ({ prefix }) =>
+      !!prefix && (path == prefix || path.startsWith(`${prefix}/`)),
+  );
+  return found ?? versions[0];
+}
+
+// same page in another version, or its closest ancestor that exists there
+export function findClosestPage(
+  path: string, // without the version prefix
+  version: { prefix: string; pages: { href: string }[] },
+) {
+  const hrefs = version.pages.map((it) => it.href);
+  const segments = path.split("/").filter((it) => it != "");
+  while (segments.length) {
+    const href = `${version.prefix}/${segments.join("/")}`;
+    if (hrefs.includes(href)) return href;
+    segments.pop();
+  }
+  return version.pages[0]?.href ?? version.prefix;
+}
+
+// the routes from the top of the tree down to href, with full hrefs like
+// "/usage-guides/basic-usage-patterns", up to the first segment not in the tree
+export function getRouteTrail(href: string, routes: EachRoute[]) {
+  const trail: EachRoute[] = [];
+  let level = routes;
+  let current = "";
+  for (const segment of href.split("/").filter((it) => it != "")) {
+    const found = level.find((it) => it.href == `/${segment}`);
+    if (!found) break;
+    current += found.href;
+    trail.push({ ...found, href: current });
+    level = found.items ?? [];
+  }
+  return trail;
+}
+
+// titles of the sections above a route, e.g. ["Usage Guides", "Advanced Usage and Patterns"]
+export function getSectionTitles(href: string, routes: EachRoute[]) {
+  return getRouteTrail(href.replace(/\/[^/]*$/, ""), routes).map(
+    (it) => it.title,
+  );
+}
+
+// go-fetch-function -> Go Fetch Function
+export function toTitleCase(input: string): string {
+  const words = input.split("-");
+  const capitalizedWords = words.map(
+    (word) => word.charAt(0).toUpperCase() + word.slice(1)
+  );
+  return capitalizedWords.join(" ");
+}
+
 // Thursday, May 23, 2024
-export function formatDate(dateStr: string): string {
-  const [day, month, year] = dateStr.split("-").map(Number);
-  const date = new Date(year, month - 1, day);
+export function formatDate(dateStr: string, locale = DEFAULT_LOCALE): string {
+  const date = stringToDate(dateStr);
 
   const options: Intl.DateTimeFormatOptions = {
     weekday: "long",
@@ -59,24 +118,25 @@ export function formatDate(dateStr: string): string {
     day: "numeric",
   };
 
-  return date.toLocaleDateString("en-US", options);
+  return date.toLocaleDateString(getLocale(locale).intl, options);
 }
 
 //  May 23, 2024
-export function formatDate2(dateStr: string): string {
-  const [day, month, year] = dateStr.split("-").map(Number);
-  const date = new Date(year, month - 1, day);
+export function formatDate2(dateStr: string, locale = DEFAULT_LOCALE): string {
+  const date = stringToDate(dateStr);
 
   const options: Intl.DateTimeFormatOptions = {
     month: "short",
     day: "numeric",
     year: "numeric",
   };
-  return date.toLocaleDateString("en-US", options);
+  return date.toLocaleDateString(getLocale(locale).intl, options);
 }
 
+// "DD-MM-YYYY", or "YYYY-MM-DD" as used by some posts
 export function stringToDate(date: string) {
-  const [day, month, year] = date.split("-").map(Number);
+  const parts = date.split("-").map(Number);
+  const [day, month, year] = date.indexOf("-") == 4 ? parts.reverse() : parts;
   return new Date(year, month - 1, day);
 }
 
@@ -1,5 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // twoslash loads typescript and its lib files from node_modules at runtime,
+  // bundled they can't find them
+  serverExternalPackages: ['typescript', 'twoslash', '@typescript/vfs'],
   images: {
     remotePatterns: [
       {
@@ -13,10 +16,6 @@ const nextConfig = {
       {
         protocol: 'https',
         hostname: 'img.shields.io',
-      },
-      {
-        protocol: 'https',
-        hostname: 'img.freepik.com',
       }
     ],
   },
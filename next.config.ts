@@ -5,14 +5,9 @@ const nextConfig: NextConfig = {
   experimental: {
     reactCompiler: true,
   },
-  images: {
-    remotePatterns: [
-      {
-        protocol: "https",
-        hostname: "img.freepik.com/**",
-      },
-    ],
-  },
+  // twoslash loads typescript and its lib files from node_modules at runtime,
+  // bundled they can't find them
+  serverExternalPackages: ["typescript", "twoslash", "@typescript/vfs"],
   // if used turbopack
   // transpilePackages: ["next-mdx-remote"],
 };
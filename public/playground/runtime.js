@@ -0,0 +1,134 @@
+// runs playground code inside the sandboxed iframe of components/playground.tsx,
+// the parent sends { code, library, routes } once this script reports "ready"
+(function () {
+  var parentWindow = window.parent;
+  var MAX_DEPTH = 4;
+
+  function post(message) {
+    parentWindow.postMessage(message, "*");
+  }
+
+  // [value, null] and [null, error] are shown as results
+  function isResult(value) {
+    return (
+      Array.isArray(value) &&
+      value.length == 2 &&
+      (value[1] === null || (value[0] === null && value[1] instanceof Error))
+    );
+  }
+
+  function describe(value, depth, seen) {
+    if (value === null) return "null";
+    if (value === undefined) return "undefined";
+    if (typeof value == "string") return depth ? JSON.stringify(value) : value;
+    if (typeof value == "function")
+      return "[Function " + (value.name || "anonymous") + "]";
+    if (typeof value != "object") return String(value);
+    if (value instanceof Error) return value.name + ": " + value.message;
+    if (seen.indexOf(value) != -1) return "[Circular]";
+    if (depth >= MAX_DEPTH)
+      return Array.isArray(value) ? "[Array]" : "[Object]";
+
+    var next = seen.concat([value]);
+    if (Array.isArray(value)) {
+      return (
+        "[" +
+        value
+          .map(function (it) {
+            return describe(it, depth + 1, next);
+          })
+          .join(", ") +
+        "]"
+      );
+    }
+    var entries = Object.keys(value).map(function (key) {
+      return key + ": " + describe(value[key], depth + 1, next);
+    });
+    return entries.length ? "{ " + entries.join(", ") + " }" : "{}";
+  }
+
+  function toPart(value) {
+    if (isResult(value)) {
+      return value[1] === null
+        ? { kind: "ok", text: describe(value[0], 1, []) }
+        : { kind: "err", text: describe(value[1], 1, []) };
+    }
+    return { text: describe(value, 0, []) };
+  }
+
+  ["log", "info", "warn", "error"].forEach(function (level) {
+    console[level] = function () {
+      post({
+        type: "log",
+        level: level,
+        parts: [].slice.call(arguments).map(toPart),
+      });
+    };
+  });
+
+  function createFetch(routes, notFound) {
+    return function (input) {
+      var url = new URL(
+        input instanceof Request ? input.url : String(input),
+        "http://localhost",
+      );
+      var route =
+        routes.find(function (it) {
+          return new RegExp(it.path).test(url.pathname);
+        }) || notFound;
+      var init = { status: route.status || 200 };
+      if (route.text) return Promise.resolve(new Response(route.body, init));
+      init.headers = { "Content-Type": "application/json" };
+      return Promise.resolve(new Response(JSON.stringify(route.body), init));
+    };
+  }
+
+  function createRequire(library) {
+    var modules = {};
+    if (library != null) {
+      var module = { exports: {} };
+      new Function("module", "exports", library)(module, module.exports);
+      modules["go-errors"] = module.exports;
+    }
+    return function (id) {
+      if (modules[id]) return modules[id];
+      if (id == "go-errors") {
+        throw new Error(
+          "go-errors isn't bundled, run `bun run playground:lib` with go-errors installed",
+        );
+      }
+      throw new Error('Cannot import "' + id + '" in the playground');
+    };
+  }
+
+  function reportError(err) {
+    post({ type: "log", level: "error", parts: [toPart(err)] });
+  }
+
+  window.addEventListener("unhandledrejection", function (event) {
+    reportError(event.reason);
+  });
+
+  window.addEventListener("message", function (event) {
+    if (event.source !== parentWindow) return;
+    var data = event.data;
+    window.fetch = createFetch(data.routes, data.notFound);
+    var module = { exports: {} };
+    Promise.resolve()
+      .then(function () {
+        var run = new Function(
+          "require",
+          "module",
+          "exports",
+          "return (async () => {\n" + data.code + "\n})()",
+        );
+        return run(createRequire(data.library), module, module.exports);
+      })
+      .catch(reportError)
+      .then(function () {
+        post({ type: "done" });
+      });
+  });
+
+  post({ type: "ready" });
+})();
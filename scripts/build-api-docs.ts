@@ -0,0 +1,342 @@
+// fills the generated regions of the api reference from the go-errors type
+// definitions and their TSDoc comments:
+//
+//   bun run docs:api                               (go-errors installed)
+//   bun run docs:api --types ../go-errors/src/index.ts
+//   bun run docs:api --check                       (fails when a region is stale)
+//
+// a region is written in any page of contents/docs, everything around it is
+// left as is:
+//
+//   {/* api:goFetch */}
+//   {/* api:end */}
+
+import path from "path";
+import { promises as fs } from "fs";
+import ts from "typescript";
+import { VERSION_FOLDER_PATTERN } from "@/lib/routes-tree";
+
+const LIBRARY = "go-errors";
+const DOCS_DIR = path.join(process.cwd(), "/contents/docs/");
+const REGION = /(\{\/\* api:(\S+) \*\/\}\n)[\s\S]*?(\{\/\* api:end \*\/\})/g;
+
+type ApiParameter = {
+  name: string;
+  type: string;
+  optional: boolean;
+  defaultValue?: string;
+  description: string;
+};
+
+type ApiEntry = {
+  name: string;
+  kind: "function" | "type" | "interface";
+  summary: string;
+  signatures: string[];
+  typeParameters: ApiParameter[];
+  parameters: ApiParameter[]; // function parameters or interface properties
+  returns?: { type: string; description: string };
+  examples: string[];
+  deprecated?: string;
+  since?: string;
+};
+
+async function main() {
+  const check = process.argv.includes("--check");
+  const entries = getEntries(getTypesPath());
+  if (!entries) {
+    console.error(
+      `cannot resolve "${LIBRARY}", install it or pass --types <path to its type definitions>`,
+    );
+    process.exit(1);
+  }
+
+  let failures = 0;
+  for (const filePath of await getMdxFiles(DOCS_DIR)) {
+    const content = await fs.readFile(filePath, "utf-8");
+    const file = path.relative(process.cwd(), filePath);
+    const updated = content.replace(REGION, (region, start, name, end) => {
+      const entry = entries.get(name);
+      if (entry) return `${start}\n${renderEntry(entry)}\n\n${end}`;
+      console.error(`${file}: "${name}" is not exported by ${LIBRARY}`);
+      failures++;
+      return region;
+    });
+    if (updated == content) continue;
+    if (check) {
+      console.log(`${file} is out of date, run bun run docs:api`);
+      failures++;
+      continue;
+    }
+    await fs.writeFile(filePath, updated);
+    console.log(`updated ${file}`);
+  }
+  if (failures) process.exit(1);
+}
+
+function getTypesPath() {
+  const index = process.argv.indexOf("--types");
+  if (index != -1) return path.resolve(process.argv[index + 1]);
+  const { resolvedModule } = ts.resolveModuleName(
+    LIBRARY,
+    path.join(process.cwd(), "index.ts"),
+    { moduleResolution: ts.ModuleResolutionKind.Bundler },
+    ts.sys,
+  );
+  return resolvedModule?.resolvedFileName;
+}
+
+function getEntries(typesPath?: string) {
+  if (!typesPath) return undefined;
+  const program = ts.createProgram([typesPath], { strict: true });
+  const checker = program.getTypeChecker();
+  const sourceFile = program.getSourceFile(typesPath);
+  const moduleSymbol = sourceFile && checker.getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) return undefined;
+
+  const entries = new Map<string, ApiEntry>();
+  checker.getExportsOfModule(moduleSymbol).forEach((exported) => {
+    const symbol =
+      exported.flags & ts.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exported)
+        : exported;
+    const entry = getEntry(exported.name, symbol, checker);
+    if (entry) entries.set(entry.name, entry);
+  });
+  return entries;
+}
+
+function getEntry(
+  name: string,
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker,
+): ApiEntry | undefined {
+  const declarations = symbol.getDeclarations() ?? [];
+  const [declaration] = declarations;
+  if (!declaration) return undefined;
+
+  const tags = symbol.getJsDocTags(checker);
+  const getTag = (tagName: string) => {
+    const tag = tags.find((it) => it.name == tagName);
+    return tag && (ts.displayPartsToString(tag.text) || tagName);
+  };
+  const entry = {
+    name,
+    summary: ts.displayPartsToString(symbol.getDocumentationComment(checker)),
+    examples: tags
+      .filter((it) => it.name == "example")
+      .map((it) => ts.displayPartsToString(it.text)),
+    deprecated: getTag("deprecated"),
+    since: getTag("since"),
+  };
+
+  if (ts.isFunctionDeclaration(declaration)) {
+    const functions = declarations.filter(ts.isFunctionDeclaration);
+    // the last overload is the most general one
+    const main = functions[functions.length - 1];
+    return {
+      ...entry,
+      kind: "function",
+      signatures: functions.map(getSignatureText),
+      typeParameters: getTypeParameters(main),
+      parameters: main.parameters.map((param) => ({
+        name: param.name.getText(),
+        type: param.type?.getText() ?? "unknown",
+        optional: !!param.questionToken || !!param.initializer,
+        defaultValue: param.initializer?.getText(),
+        description: getComment(ts.getJSDocParameterTags(param)),
+      })),
+      returns: {
+        type: main.type?.getText() ?? "void",
+        description: getComment(ts.getJSDocReturnTag(main)),
+      },
+    };
+  }
+  if (ts.isTypeAliasDeclaration(declaration)) {
+    return {
+      ...entry,
+      kind: "type",
+      signatures: [getSignatureText(declaration)],
+      typeParameters: getTypeParameters(declaration),
+      parameters: [],
+    };
+  }
+  if (ts.isInterfaceDeclaration(declaration)) {
+    const members = declarations
+      .filter(ts.isInterfaceDeclaration)
+      .flatMap((it) => it.members)
+      .filter(ts.isPropertySignature);
+    return {
+      ...entry,
+      kind: "interface",
+      signatures: [getSignatureText(declaration)],
+      typeParameters: getTypeParameters(declaration),
+      parameters: members.map((member) => {
+        const memberSymbol = checker.getSymbolAtLocation(member.name);
+        return {
+          name: member.name.getText(),
+          type: member.type?.getText() ?? "unknown",
+          optional: !!member.questionToken,
+          description: memberSymbol
+            ? ts.displayPartsToString(
+                memberSymbol.getDocumentationComment(checker),
+              )
+            : "",
+        };
+      }),
+    };
+  }
+}
+
+// the declaration as written, without export/declare and comments
+function getSignatureText(declaration: ts.Declaration) {
+  return declaration
+    .getText()
+    .replace(/^export\s+/, "")
+    .replace(/^declare\s+/, "");
+}
+
+function getTypeParameters(
+  declaration:
+    ts.FunctionDeclaration | ts.TypeAliasDeclaration | ts.InterfaceDeclaration,
+): ApiParameter[] {
+  // @template T description, or the TSDoc @typeParam T - description
+  const descriptions = new Map(
+    ts.getJSDocTags(declaration).flatMap((tag): [string, string][] => {
+      if (ts.isJSDocTemplateTag(tag))
+        return tag.typeParameters.map((it) => [it.name.text, getComment(tag)]);
+      if (tag.tagName.text != "typeParam") return [];
+      const [, name, description] =
+        getComment(tag).match(/^(\w+)\s*-?\s*([\s\S]*)$/) ?? [];
+      return name ? [[name, description]] : [];
+    }),
+  );
+  return (declaration.typeParameters ?? []).map((param) => ({
+    name: param.name.text,
+    type: param.constraint?.getText() ?? "",
+    optional: !!param.default,
+    defaultValue: param.default?.getText(),
+    description: descriptions.get(param.name.text) ?? "",
+  }));
+}
+
+function getComment(tags?: ts.JSDocTag | readonly ts.JSDocTag[]) {
+  const [tag] = Array.isArray(tags) ? tags : tags ? [tags] : [];
+  if (!tag?.comment) return "";
+  // TSDoc separates the name from the text with a hyphen
+  const text = ts.getTextOfJSDocComment(tag.comment) ?? "";
+  return text.trim().replace(/^-\s*/, "");
+}
+
+function renderEntry(entry: ApiEntry) {
+  const sections: string[] = [];
+  if (entry.deprecated) {
+    const message =
+      entry.deprecated == "deprecated"
+        ? "This API is deprecated."
+        : entry.deprecated;
+    sections.push(
+      `<Note type="warning" title="Deprecated">\n${prose(message)}\n</Note>`,
+    );
+  }
+  if (entry.since) sections.push(`**Since:** ${prose(entry.since)}`);
+  if (entry.summary) sections.push(prose(entry.summary));
+
+  sections.push(
+    `## Signature\n\n\`\`\`typescript nocheck\n${entry.signatures.join("\n")}\n\`\`\``,
+  );
+  if (entry.typeParameters.length) {
+    sections.push(
+      `## Type Parameters\n\n${renderTable(
+        ["Name", "Constraint", "Default", "Description"],
+        entry.typeParameters.map((it) => [
+          code(it.name),
+          code(it.type),
+          code(it.defaultValue),
+          prose(it.description),
+        ]),
+      )}`,
+    );
+  }
+  if (entry.parameters.length) {
+    const title = entry.kind == "interface" ? "Properties" : "Parameters";
+    sections.push(
+      `## ${title}\n\n${renderTable(
+        ["Name", "Type", "Required", "Description"],
+        entry.parameters.map((it) => [
+          code(it.name),
+          code(it.type),
+          it.optional
+            ? `No${it.defaultValue ? `, defaults to ${code(it.defaultValue)}` : ""}`
+            : "Yes",
+          prose(it.description),
+        ]),
+      )}`,
+    );
+  }
+  if (entry.returns) {
+    const { type, description } = entry.returns;
+    sections.push(
+      `## Returns\n\n${code(type)}${description ? ` ${prose(description)}` : ""}`,
+    );
+  }
+  if (entry.examples.length) {
+    // TSDoc examples use the exports without importing them, docs:check-code
+    // imports them for fragments
+    const examples = entry.examples.map((it) =>
+      it.trimStart().startsWith("```")
+        ? it.trim()
+        : `\`\`\`typescript fragment\n${it.trim()}\n\`\`\``,
+    );
+    sections.push(`## Examples\n\n${examples.join("\n\n")}`);
+  }
+  return sections.join("\n\n");
+}
+
+function renderTable(head: string[], rows: string[][]) {
+  const line = (cells: string[]) =>
+    `| ${cells.map((it) => it.replace(/\|/g, "\\|").replace(/\n/g, " ")).join(" | ")} |`;
+  return [line(head), line(head.map(() => "---")), ...rows.map(line)].join(
+    "\n",
+  );
+}
+
+// braces and tags would be read as mdx, inline code is left alone
+function prose(text: string) {
+  return text
+    .replace(
+      /\{@link(?:code|plain)?\s+([^\s|}]+)\s*\|?\s*([^}]*)\}/g,
+      (_, name, label) => `\`${label || name}\``,
+    )
+    .split(/(`[^`]*`)/)
+    .map((it, index) => (index % 2 ? it : it.replace(/([{}<])/g, "\\$1")))
+    .join("");
+}
+
+function code(text?: string) {
+  return text ? `\`${text.replace(/\s+/g, " ")}\`` : "";
+}
+
+async function getMdxFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      // older versions document the api as it was
+      if (
+        entry.isDirectory() &&
+        dir == DOCS_DIR &&
+        VERSION_FOLDER_PATTERN.test(entry.name)
+      )
+        return [];
+      if (entry.isDirectory()) return getMdxFiles(fullPath);
+      return entry.name.endsWith(".mdx") ? [fullPath] : [];
+    }),
+  );
+  return files.flat();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,38 @@
+// bundles the installed go-errors into public/playground/go-errors.js for the
+// playground, runs before dev and build
+
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const exec = promisify(execFile);
+
+const LIBRARY = "go-errors";
+const OUTPUT_PATH = path.join(process.cwd(), "/public/playground/go-errors.js");
+
+async function main() {
+  let entry: string;
+  try {
+    entry = require.resolve(LIBRARY);
+  } catch {
+    console.error(
+      `playground: cannot resolve "${LIBRARY}", install it from its source (bun add <path to go-errors>)`,
+    );
+    process.exit(1);
+  }
+  // commonjs, the playground runtime evaluates it with module and exports
+  await exec("bun", [
+    "build",
+    entry,
+    "--format=cjs",
+    "--target=browser",
+    "--minify",
+    `--outfile=${OUTPUT_PATH}`,
+  ]);
+  console.log(`playground: bundled ${LIBRARY}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
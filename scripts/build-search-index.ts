@@ -0,0 +1,129 @@
+// writes public/search-index.json for the search dialog, runs before dev and build
+
+import path from "path";
+import { promises as fs } from "fs";
+import matter from "gray-matter";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkMdx from "remark-mdx";
+import remarkGfm from "remark-gfm";
+import { toString } from "mdast-util-to-string";
+import { visit, SKIP } from "unist-util-visit";
+import GithubSlugger from "github-slugger";
+import { ROUTES, VERSIONS } from "@/lib/routes-config";
+import { getSectionTitles } from "@/lib/utils";
+import { expandIncludes } from "@/lib/includes";
+import type { IndexedSection, SearchIndex } from "@/lib/search-index";
+
+const OUTPUT_PATH = path.join(process.cwd(), "/public/search-index.json");
+
+// too common in code blocks to be worth indexing
+const CODE_STOPWORDS = new Set([
+  "async",
+  "await",
+  "const",
+  "let",
+  "var",
+  "function",
+  "return",
+  "import",
+  "from",
+  "export",
+  "new",
+  "type",
+  "interface",
+  "else",
+  "throw",
+  "true",
+  "false",
+  "null",
+  "undefined",
+  "console",
+  "log",
+]);
+
+async function main() {
+  const index: SearchIndex = { pages: [], sections: [] };
+
+  // only the latest docs are searchable
+  for (const route of VERSIONS[0].pages) {
+    const filePath = path.join(
+      process.cwd(),
+      "/contents/docs/",
+      route.href,
+      "index.mdx",
+    );
+    const { content, data } = matter(
+      await expandIncludes(await fs.readFile(filePath, "utf-8"), filePath),
+    );
+    const page =
+      index.pages.push({
+        title: data.title ?? route.title,
+        href: route.href,
+        section: getSectionTitles(route.href, ROUTES).join(" › "),
+      }) - 1;
+    index.sections.push(
+      ...getSections(content).map((section) => ({ ...section, page })),
+    );
+  }
+
+  await fs.writeFile(OUTPUT_PATH, JSON.stringify(index));
+  console.log(
+    `search index: ${index.pages.length} pages, ${index.sections.length} sections`,
+  );
+}
+
+// splits a document at every heading, ids follow rehype-slug
+function getSections(content: string) {
+  const tree = unified().use(remarkParse).use(remarkMdx).use(remarkGfm).parse(
+    content,
+  );
+  const slugger = new GithubSlugger();
+  const sections: Omit<IndexedSection, "page">[] = [];
+  let current = { heading: "", anchor: "", text: [] as string[], code: new Set<string>() };
+
+  const flush = () => {
+    const text = current.text.join(" ").replace(/\s+/g, " ").trim();
+    if (!current.heading && !text && !current.code.size) return;
+    sections.push({
+      heading: current.heading,
+      anchor: current.anchor,
+      text,
+      code: [...current.code],
+    });
+  };
+
+  visit(tree, (node) => {
+    if (node.type == "heading") {
+      flush();
+      const heading = toString(node);
+      current = {
+        heading,
+        anchor: slugger.slug(heading),
+        text: [],
+        code: new Set(),
+      };
+      return SKIP;
+    }
+    if (node.type == "code") {
+      getIdentifiers(node.value).forEach((it) => current.code.add(it));
+      return SKIP;
+    }
+    if (node.type == "text" || node.type == "inlineCode") {
+      current.text.push(node.value);
+    }
+  });
+  flush();
+
+  return sections;
+}
+
+function getIdentifiers(code: string) {
+  const identifiers = code.match(/[A-Za-z_$][\w$]{2,}/g) ?? [];
+  return identifiers.filter((it) => !CODE_STOPWORDS.has(it));
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
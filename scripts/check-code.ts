@@ -0,0 +1,324 @@
+// type-checks every typescript fence in contents/docs and contents/blogs, and
+// the files in contents/examples imported by fences (lib/includes.ts), against
+// the go-errors type definitions:
+//
+//   bun run docs:check-code                          (go-errors installed)
+//   bun run docs:check-code --types ../go-errors/src/index.ts
+//
+// fence meta flags, e.g. ```typescript fragment="continues the block above"
+//   nocheck       the block is skipped
+//   fragment      an excerpt, names declared elsewhere and top level return are
+//                 allowed and the go-errors exports it uses needn't be imported
+//   expect-error  the block has to fail to compile
+//
+// nocheck and fragment hide errors, so they take the reason as their value
+
+import path from "path";
+import { promises as fs } from "fs";
+import ts from "typescript";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkMdx from "remark-mdx";
+import remarkGfm from "remark-gfm";
+import { visit } from "unist-util-visit";
+
+const CONTENT_DIRS = ["/contents/docs/", "/contents/blogs/"];
+const EXAMPLES_DIR = path.join(process.cwd(), "/contents/examples/");
+const LANGS = ["ts", "typescript"];
+const LIBRARY = "go-errors";
+const VIRTUAL_DIR = path.join(process.cwd(), "/.docs-code/");
+
+// "Cannot find name", "Did you mean", "return outside of a function"
+const FRAGMENT_IGNORED_CODES = [2304, 2552, 2582, 1108];
+const EXPLAINED_FLAGS = ["nocheck", "fragment"];
+// `flag` or `flag="value"`
+const META_FLAG = /([\w-]+)(?:="([^"]*)")?/g;
+
+type CodeBlock = {
+  file: string; // relative to the repo root
+  line: number; // line of the opening fence, 0 for example files
+  code: string;
+  flags: string[];
+  reasons: Record<string, string>; // of the flags that have a value
+  fileName: string; // virtual file the block is compiled as
+};
+
+async function main() {
+  const types = getTypesArgument();
+  const blocks = (
+    await Promise.all(
+      CONTENT_DIRS.map(async (dir) => {
+        const files = await getMdxFiles(path.join(process.cwd(), dir));
+        return (await Promise.all(files.map(getCodeBlocks))).flat();
+      }),
+    )
+  )
+    .flat()
+    .concat(await getExampleBlocks());
+  const checked = blocks.filter((block) => !block.flags.includes("nocheck"));
+  const unexplained = blocks.flatMap((block) =>
+    EXPLAINED_FLAGS.filter(
+      (flag) => block.flags.includes(flag) && !block.reasons[flag],
+    ).map(
+      (flag) =>
+        `${block.file}:${block.line} ${flag} needs a reason, ${flag}="..."`,
+    ),
+  );
+
+  const options = getCompilerOptions(types);
+  const exports = getLibraryExports(resolveLibrary(options, types));
+  if (!exports) {
+    console.error(
+      `cannot resolve "${LIBRARY}", install it or pass --types <path to its type definitions>`,
+    );
+    process.exit(1);
+  }
+  const program = createProgram(checked, options, exports);
+
+  let failures = unexplained.length;
+  unexplained.forEach((it) => console.log(it));
+  for (const block of checked) {
+    const errors = getErrors(program, block);
+    if (block.flags.includes("expect-error")) {
+      if (errors.length) continue;
+      failures++;
+      console.log(
+        `${block.file}:${block.line} expected a type error but the block compiles`,
+      );
+      continue;
+    }
+    failures += errors.length;
+    errors.forEach((it) => console.log(formatError(block, it)));
+  }
+
+  console.log(
+    `checked ${checked.length} code blocks (${blocks.length - checked.length} skipped), ${failures} failures`,
+  );
+  if (failures) process.exit(1);
+}
+
+function getTypesArgument() {
+  const index = process.argv.indexOf("--types");
+  if (index == -1) return undefined;
+  return path.resolve(process.argv[index + 1]);
+}
+
+async function getMdxFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return getMdxFiles(fullPath);
+      return entry.name.endsWith(".mdx") ? [fullPath] : [];
+    }),
+  );
+  return files.flat();
+}
+
+async function getCodeBlocks(filePath: string) {
+  const raw = await fs.readFile(filePath, "utf-8");
+  // blank out the frontmatter but keep its lines so positions match the file
+  const content = raw.replace(/^---\r?\n[\s\S]*?\r?\n---/, (it) =>
+    it.replace(/[^\n]/g, ""),
+  );
+  const tree = unified()
+    .use(remarkParse)
+    .use(remarkMdx)
+    .use(remarkGfm)
+    .parse(content);
+  const file = path.relative(process.cwd(), filePath);
+  const blocks: CodeBlock[] = [];
+  visit(tree, "code", (node) => {
+    // ```typescript:api.ts is a titled block (rehype-code-titles)
+    const lang = node.lang?.split(":")[0];
+    if (!lang || !LANGS.includes(lang)) return;
+    const line = node.position!.start.line;
+    blocks.push({
+      file,
+      line,
+      code: node.value,
+      ...getFlags(node.meta ?? ""),
+      fileName: path.join(
+        VIRTUAL_DIR,
+        `${file.replace(/[\\/]/g, "__")}__${line}.ts`,
+      ),
+    });
+  });
+  return blocks;
+}
+
+function getFlags(meta: string) {
+  const matches = [...meta.matchAll(META_FLAG)];
+  return {
+    flags: matches.map((it) => it[1]),
+    reasons: Object.fromEntries(
+      matches.filter((it) => it[2]).map((it) => [it[1], it[2]]),
+    ),
+  };
+}
+
+async function getExampleBlocks(): Promise<CodeBlock[]> {
+  const files = await fs
+    .readdir(EXAMPLES_DIR, { recursive: true })
+    .catch(() => [] as string[]);
+  return Promise.all(
+    files
+      .filter((it) => /\.tsx?$/.test(it))
+      .map(async (it) => {
+        const file = path.relative(process.cwd(), path.join(EXAMPLES_DIR, it));
+        return {
+          file,
+          line: 0,
+          code: await fs.readFile(path.join(EXAMPLES_DIR, it), "utf-8"),
+          flags: [],
+          reasons: {},
+          fileName: path.join(
+            VIRTUAL_DIR,
+            `${file.replace(/[\\/]/g, "__")}.ts`,
+          ),
+        };
+      }),
+  );
+}
+
+function getCompilerOptions(types?: string): ts.CompilerOptions {
+  return {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    lib: ["lib.es2022.d.ts", "lib.dom.d.ts"],
+    types: ["node"],
+    baseUrl: process.cwd(),
+    ...(types && { paths: { [LIBRARY]: [types] } }),
+  };
+}
+
+function createProgram(
+  blocks: CodeBlock[],
+  options: ts.CompilerOptions,
+  exports: string[],
+) {
+  // every block is its own module so declarations don't clash between blocks
+  const sources = new Map(
+    blocks.map((block) => [
+      block.fileName,
+      `${block.code}\nexport {};\n${getFragmentImport(block, exports)}`,
+    ]),
+  );
+
+  const host = ts.createCompilerHost(options);
+  const { getSourceFile, fileExists, readFile } = host;
+  host.fileExists = (fileName) => sources.has(fileName) || fileExists(fileName);
+  host.readFile = (fileName) => sources.get(fileName) ?? readFile(fileName);
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const source = sources.get(fileName);
+    if (source == undefined)
+      return getSourceFile(fileName, languageVersion, ...rest);
+    return ts.createSourceFile(fileName, source, languageVersion, true);
+  };
+  return ts.createProgram([...sources.keys()], options, host);
+}
+
+function resolveLibrary(options: ts.CompilerOptions, types?: string) {
+  if (types) return types;
+  const { resolvedModule } = ts.resolveModuleName(
+    LIBRARY,
+    path.join(VIRTUAL_DIR, "index.ts"),
+    options,
+    ts.sys,
+  );
+  return resolvedModule?.resolvedFileName;
+}
+
+function getLibraryExports(typesPath?: string) {
+  if (!typesPath) return undefined;
+  const program = ts.createProgram([typesPath], { noEmit: true });
+  const sourceFile = program.getSourceFile(typesPath);
+  const moduleSymbol =
+    sourceFile && program.getTypeChecker().getSymbolAtLocation(sourceFile);
+  if (!moduleSymbol) return undefined;
+  return program
+    .getTypeChecker()
+    .getExportsOfModule(moduleSymbol)
+    .map((it) => it.name);
+}
+
+// the exports a fragment uses without declaring or importing them, imported
+// after the code so the line numbers stay the same
+function getFragmentImport(block: CodeBlock, exports: string[]) {
+  if (!block.flags.includes("fragment")) return "";
+  const declared = getDeclaredNames(block);
+  const used = exports.filter(
+    (name) =>
+      !declared.has(name) && new RegExp(`\\b${name}\\b`).test(block.code),
+  );
+  if (!used.length) return "";
+  return `import { ${used.join(", ")} } from "${LIBRARY}";\n`;
+}
+
+function getDeclaredNames(block: CodeBlock) {
+  const sourceFile = ts.createSourceFile(
+    block.fileName,
+    block.code,
+    ts.ScriptTarget.ES2022,
+  );
+  const names = new Set<string>();
+  const addBinding = (name: ts.BindingName) => {
+    if (ts.isIdentifier(name)) names.add(name.text);
+    else
+      name.elements.forEach(
+        (it) => !ts.isOmittedExpression(it) && addBinding(it.name),
+      );
+  };
+  sourceFile.statements.forEach((statement) => {
+    if (ts.isImportDeclaration(statement)) {
+      const bindings = statement.importClause?.namedBindings;
+      if (bindings && ts.isNamedImports(bindings)) {
+        bindings.elements.forEach((it) => names.add(it.name.text));
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach((it) =>
+        addBinding(it.name),
+      );
+    } else if (
+      (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement) ||
+        ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) ||
+        ts.isEnumDeclaration(statement)) &&
+      statement.name
+    ) {
+      names.add(statement.name.text);
+    }
+  });
+  return names;
+}
+
+function getErrors(program: ts.Program, block: CodeBlock) {
+  const sourceFile = program.getSourceFile(block.fileName)!;
+  const diagnostics = [
+    ...program.getSyntacticDiagnostics(sourceFile),
+    ...program.getSemanticDiagnostics(sourceFile),
+  ];
+  if (!block.flags.includes("fragment")) return diagnostics;
+  return diagnostics.filter((it) => !FRAGMENT_IGNORED_CODES.includes(it.code));
+}
+
+function formatError(block: CodeBlock, diagnostic: ts.Diagnostic) {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+  if (!diagnostic.file || diagnostic.start == undefined)
+    return `${block.file}:${block.line} error TS${diagnostic.code}: ${message}`;
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(
+    diagnostic.start,
+  );
+  // the code starts on the line after the opening fence
+  return `${block.file}:${block.line + line + 1}:${character + 1} error TS${diagnostic.code}: ${message}`;
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,93 @@
+// checks the frontmatter of every docs page (all versions and translations)
+// and blog post against the schemas in lib/frontmatter.ts:
+//
+//   bun run docs:check
+//
+// pages are loaded through the content layer, the same way they are when
+// rendered, and every invalid field is listed with its file
+
+import path from "path";
+import { promises as fs } from "fs";
+import { getDocument } from "@/lib/content";
+import {
+  blogFrontmatterSchema,
+  docsFrontmatterSchema,
+  FrontmatterError,
+  parseFrontmatter,
+} from "@/lib/frontmatter";
+import { DEFAULT_LOCALE, LOCALES } from "@/lib/i18n";
+
+const CONTENTS_DIR = path.join(process.cwd(), "/contents/");
+
+async function main() {
+  const docs = (
+    await Promise.all(
+      LOCALES.map(({ code }) =>
+        getDocsPages(
+          path.join(CONTENTS_DIR, code == DEFAULT_LOCALE ? "" : code, "docs"),
+        ),
+      ),
+    )
+  ).flat();
+  const blogs = await getBlogPosts(path.join(CONTENTS_DIR, "blogs"));
+
+  let failures = 0;
+  const check = async (
+    filePath: string,
+    schema: typeof docsFrontmatterSchema | typeof blogFrontmatterSchema,
+  ) => {
+    try {
+      const { frontmatter } = await getDocument<unknown>(filePath);
+      parseFrontmatter(schema, frontmatter, filePath);
+    } catch (err) {
+      failures++;
+      if (err instanceof FrontmatterError) console.log(err.message);
+      else console.log(`${path.relative(process.cwd(), filePath)}: ${err}`);
+    }
+  };
+  for (const filePath of docs) await check(filePath, docsFrontmatterSchema);
+  for (const filePath of blogs) await check(filePath, blogFrontmatterSchema);
+
+  console.log(
+    `checked ${docs.length} pages and ${blogs.length} posts, ${failures} invalid`,
+  );
+  if (failures) process.exit(1);
+}
+
+// every index.mdx is a page, other mdx files aren't routed
+async function getDocsPages(dir: string): Promise<string[]> {
+  const entries = await fs
+    .readdir(dir, { withFileTypes: true })
+    .catch(() => []);
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return getDocsPages(fullPath);
+      return entry.name == "index.mdx" ? [fullPath] : [];
+    }),
+  );
+  return files.flat();
+}
+
+// contents/blogs/<slug>.mdx or contents/blogs/<slug>/index.mdx
+async function getBlogPosts(dir: string) {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isFile() && entry.name.endsWith(".mdx")) return [fullPath];
+      const index = path.join(fullPath, "index.mdx");
+      if (!entry.isDirectory()) return [];
+      return fs
+        .access(index)
+        .then(() => [index])
+        .catch(() => []);
+    }),
+  );
+  return files.flat();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,316 @@
+// checks the links, images, blog covers and <Outlet path> props in docs pages
+// (all versions and translations) and blog posts against the routes and headings
+// the site is built with:
+//
+//   bun run docs:check-links
+//
+// relative links are resolved the way the browser resolves them, #fragments
+// are matched with the heading ids from rehype-slug (lib/content.ts) and the
+// closest route or heading is suggested for typos. external links aren't fetched
+
+import path from "path";
+import fs from "fs";
+import { unified } from "unified";
+import remarkParse from "remark-parse";
+import remarkMdx from "remark-mdx";
+import remarkGfm from "remark-gfm";
+import { visit } from "unist-util-visit";
+import { getDocument } from "@/lib/content";
+import { type BlogMdxFrontmatter, isPublished } from "@/lib/frontmatter";
+import { DEFAULT_LOCALE, LOCALES } from "@/lib/i18n";
+import { LATEST_ALIAS, VERSIONS, type EachRoute } from "@/lib/routes-config";
+import { readFrontmatter } from "@/lib/routes-tree";
+
+const ROOT = process.cwd();
+const CONTENTS_DIR = path.join(ROOT, "/contents/");
+const BLOG_DIR = path.join(CONTENTS_DIR, "blogs");
+const APP_DIR = path.join(ROOT, "/app/");
+const PUBLIC_DIR = path.join(ROOT, "/public/");
+// only used to resolve relative urls
+const ORIGIN = "http://localhost";
+const EXTERNAL = /^([a-z][a-z\d+.-]*:|\/\/)/i;
+
+type Page = {
+  filePath: string;
+  href: string; // e.g. /docs/getting-started/installation, /blog/<slug>
+  assetBase?: string; // relative images of folder based posts
+};
+
+type Reference = {
+  kind: "link" | "image" | "cover" | "outlet";
+  value: string;
+  line: number;
+  column: number;
+};
+
+async function main() {
+  const pages = [...getDocsPages(), ...getBlogPages()];
+  // every route a link can point to, with the file its headings come from
+  const routes = new Map<string, string | undefined>(
+    getAppRoutes(APP_DIR, "").map((it) => [it, undefined]),
+  );
+  for (const page of pages) {
+    if (isPublished(readFrontmatter(page.filePath) ?? {})) {
+      routes.set(page.href, page.filePath);
+    }
+  }
+  // noLink sections have a generated page unless they have an index.mdx
+  for (const { href } of VERSIONS.flatMap((it) => it.sections)) {
+    if (!routes.has(`/docs${href}`)) routes.set(`/docs${href}`, undefined);
+  }
+  // untranslated pages are served in english under every locale
+  for (const { code } of LOCALES.filter((it) => it.code != DEFAULT_LOCALE)) {
+    for (const [href, filePath] of routes) {
+      if (!href.startsWith("/docs") || routes.has(`/${code}${href}`)) continue;
+      routes.set(`/${code}${href}`, filePath);
+    }
+  }
+  const suggestions = [...routes.keys()].filter(
+    (it) => it.startsWith("/docs") || it.startsWith("/blog"),
+  );
+
+  let failures = 0;
+  for (const page of pages) {
+    const file = path.relative(ROOT, page.filePath);
+    for (const ref of getReferences(page.filePath)) {
+      const problem = await checkReference(ref, page, routes, suggestions);
+      if (!problem) continue;
+      failures++;
+      console.log(`${file}:${ref.line}:${ref.column} ${problem}`);
+    }
+  }
+
+  console.log(`checked ${pages.length} pages, ${failures} broken`);
+  if (failures) process.exit(1);
+}
+
+async function checkReference(
+  { kind, value }: Reference,
+  page: Page,
+  routes: Map<string, string | undefined>,
+  suggestions: string[],
+) {
+  if (kind == "outlet") {
+    if (hasSection(value)) return undefined;
+    return `<Outlet path="${value}"> has no pages below it`;
+  }
+  // next/image only loads remote images from the hosts in next.config.js
+  if (kind == "cover" && EXTERNAL.test(value)) {
+    return `cover "${value}" is remote, use a file in public or next to the post`;
+  }
+  if (EXTERNAL.test(value)) return undefined;
+
+  const isImage = kind == "image" || kind == "cover";
+  const url = new URL(
+    value,
+    `${ORIGIN}${isImage && page.assetBase ? page.assetBase : page.href}`,
+  );
+  const href = normalize(decodeURIComponent(url.pathname));
+  if (isImage) {
+    if (isFile(href)) return undefined;
+    return `${kind} "${value}" not found, resolved to ${href}`;
+  }
+
+  if (!routes.has(href)) {
+    if (isFile(href)) return undefined;
+    return `broken link "${value}"${didYouMean(href, suggestions)}`;
+  }
+  const filePath = routes.get(href);
+  const fragment = decodeURIComponent(url.hash.slice(1));
+  if (!fragment || !filePath) return undefined;
+  const anchors = await getAnchors(filePath);
+  if (!anchors || anchors.includes(fragment)) return undefined;
+  const target = href == page.href ? "this page" : href;
+  return `no heading "#${fragment}" on ${target}${didYouMean(fragment, anchors, "#")}`;
+}
+
+// /docs/latest/... redirects to /docs/..., trailing slashes are dropped
+function normalize(href: string) {
+  const trimmed = href.length > 1 ? href.replace(/\/+$/, "") : href;
+  return trimmed.replace(
+    new RegExp(`^((?:/[^/]+)?/docs)/${LATEST_ALIAS}(?=/|$)`),
+    "$1",
+  );
+}
+
+// files in public and co-located blog assets
+function isFile(href: string) {
+  const blogAsset = href.match(/^\/blog\/([^/]+)\/(.+)$/);
+  const filePath = blogAsset
+    ? path.join(BLOG_DIR, blogAsset[1], blogAsset[2])
+    : path.join(PUBLIC_DIR, href);
+  return fs.existsSync(filePath) && fs.statSync(filePath).isFile();
+}
+
+// the same lookup as getAllChilds (lib/markdown.ts)
+function hasSection(value: string) {
+  const segments = value.split("/").filter((it) => it != "");
+  const version =
+    VERSIONS.find((it) => it.prefix && it.prefix == `/${segments[0]}`) ??
+    VERSIONS[0];
+  let routes: EachRoute[] = version.routes;
+  for (const segment of version.prefix ? segments.slice(1) : segments) {
+    const found = routes.find((it) => it.href == `/${segment}`);
+    if (!found) return false;
+    routes = found.items ?? [];
+  }
+  return segments.length > 0 && routes.length > 0;
+}
+
+const anchorCache = new Map<string, Promise<string[] | undefined>>();
+
+// pages that fail to load are reported by docs:check
+function getAnchors(filePath: string) {
+  if (!anchorCache.has(filePath)) {
+    anchorCache.set(
+      filePath,
+      getDocument(filePath)
+        .then((doc) => doc.anchors)
+        .catch(() => undefined),
+    );
+  }
+  return anchorCache.get(filePath)!;
+}
+
+function getReferences(filePath: string) {
+  const raw = fs.readFileSync(filePath, "utf-8");
+  // blank out the frontmatter but keep its lines so positions match the file
+  const content = raw.replace(/^---\r?\n[\s\S]*?\r?\n---/, (it) =>
+    it.replace(/[^\n]/g, ""),
+  );
+  const tree = unified()
+    .use(remarkParse)
+    .use(remarkMdx)
+    .use(remarkGfm)
+    .parse(content);
+
+  const refs: Reference[] = [];
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const add = (kind: Reference["kind"], value: unknown, node: any) => {
+    if (typeof value != "string" || !value) return;
+    const { line, column } = node.position.start;
+    refs.push({ kind, value, line, column });
+  };
+  // the cover of a blog post is rendered with next/image like any other
+  const { cover } = (readFrontmatter(filePath) ??
+    {}) as Partial<BlogMdxFrontmatter>;
+  const line = raw.split("\n").findIndex((it) => /^cover:/.test(it)) + 1;
+  add("cover", cover, { position: { start: { line, column: 1 } } });
+  visit(tree, (node) => {
+    if (node.type == "link" || node.type == "definition") {
+      add("link", node.url, node);
+    } else if (node.type == "image") {
+      add("image", node.url, node);
+    } else if (
+      node.type == "mdxJsxFlowElement" ||
+      node.type == "mdxJsxTextElement"
+    ) {
+      // only plain string props, expressions can't be resolved here
+      const props = Object.fromEntries(
+        node.attributes
+          .filter((it) => it.type == "mdxJsxAttribute")
+          .map((it) => [it.name, it.value]),
+      );
+      if (node.name == "Outlet") add("outlet", props.path, node);
+      else if (node.name == "img" || node.name == "Image") {
+        add("image", props.src, node);
+      } else add("link", props.href, node);
+    }
+  });
+  return refs;
+}
+
+// every index.mdx of every locale and version
+function getDocsPages() {
+  return LOCALES.map(({ code }) => {
+    const locale = code == DEFAULT_LOCALE ? "" : code;
+    const dir = path.join(CONTENTS_DIR, locale, "docs");
+    const prefix = locale ? `/${locale}/docs` : "/docs";
+    return findFiles(dir, "index.mdx").map((filePath) => {
+      const slug = path.relative(dir, path.dirname(filePath));
+      return { filePath, href: normalize(`${prefix}/${slug}`) };
+    });
+  }).flat();
+}
+
+// contents/blogs/<slug>.mdx or contents/blogs/<slug>/index.mdx
+function getBlogPages(): Page[] {
+  if (!fs.existsSync(BLOG_DIR)) return [];
+  return fs
+    .readdirSync(BLOG_DIR, { withFileTypes: true })
+    .map((entry) => {
+      if (entry.isFile() && entry.name.endsWith(".mdx")) {
+        const slug = entry.name.replace(/\.mdx$/, "");
+        return [
+          { filePath: path.join(BLOG_DIR, entry.name), href: `/blog/${slug}` },
+        ];
+      }
+      const filePath = path.join(BLOG_DIR, entry.name, "index.mdx");
+      if (!entry.isDirectory() || !fs.existsSync(filePath)) return [];
+      const href = `/blog/${entry.name}`;
+      return [{ filePath, href, assetBase: `${href}/` }];
+    })
+    .flat();
+}
+
+function findFiles(dir: string, name: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .map((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return findFiles(fullPath, name);
+      return entry.name == name ? [fullPath] : [];
+    })
+    .flat();
+}
+
+// pages and route handlers of the app router without dynamic segments,
+// e.g. /playground and /blog/rss.xml
+function getAppRoutes(dir: string, href: string): string[] {
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .map((entry) => {
+      if (entry.isDirectory()) {
+        if (entry.name.startsWith("[")) return [];
+        // (group) folders don't add a segment
+        const segment = /^\(.*\)$/.test(entry.name) ? "" : `/${entry.name}`;
+        return getAppRoutes(path.join(dir, entry.name), `${href}${segment}`);
+      }
+      return /^(page|route)\.tsx?$/.test(entry.name) ? [href || "/"] : [];
+    })
+    .flat();
+}
+
+function didYouMean(value: string, candidates: string[], prefix = "") {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = levenshtein(value, candidate);
+    if (distance < bestDistance) [best, bestDistance] = [candidate, distance];
+  }
+  // close enough to be a typo rather than a different page
+  if (!best || bestDistance > Math.max(3, value.length / 4)) return "";
+  return `, did you mean "${prefix}${best}"?`;
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] == b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,156 @@
+// checks that the docs routes (lib/routes-config.ts) and the files in
+// contents/docs agree, runs before `build`:
+//
+//   bun run docs:check-routes
+//
+// it fails on routes without an index.mdx, index.mdx files no route leads to
+// (hidden and unpublished pages aside), .mdx files other than index.mdx,
+// noLink sections without pages below them, _meta.json "pages" entries
+// that don't exist and routes getDocsStaticParams leaves out
+
+import path from "path";
+import fs from "fs";
+import { isPublished } from "@/lib/frontmatter";
+import { DEFAULT_LOCALE, LOCALES } from "@/lib/i18n";
+import {
+  getDocsStaticParams,
+  VERSIONS,
+  type EachRoute,
+} from "@/lib/routes-config";
+import { META_FILE, readFrontmatter, readMeta } from "@/lib/routes-tree";
+
+const CONTENTS_DIR = path.join(process.cwd(), "/contents/");
+const DOCS_DIR = path.join(CONTENTS_DIR, "docs");
+
+function main() {
+  const problems: string[] = [];
+  const report = (filePath: string, message: string) =>
+    problems.push(`${path.relative(process.cwd(), filePath)}: ${message}`);
+
+  // every page of every version, by the file it is rendered from, the root
+  // of a version (/docs, /docs/v1) is its own index.mdx
+  const routed = new Set<string>();
+  // the [locale] pages render only these, any other route is a 404 there
+  const prerendered = new Set(
+    getDocsStaticParams().map((it) => it.slug.join("/")),
+  );
+  const checkPrerendered = (filePath: string, href: string) => {
+    if (prerendered.has(href.slice(1))) return;
+    report(
+      filePath,
+      `the route /docs${href} isn't prerendered, localized it is a 404`,
+    );
+  };
+  for (const version of VERSIONS) {
+    const hrefs = [version.prefix, ...version.pages.map((it) => it.href)];
+    for (const href of hrefs) {
+      const filePath = getIndexPath(DOCS_DIR, href);
+      routed.add(filePath);
+      if (!fs.existsSync(filePath)) {
+        report(filePath, `missing, the route /docs${href} is dead`);
+      }
+      checkPrerendered(filePath, href);
+    }
+    for (const { href } of version.sections) {
+      checkPrerendered(path.join(DOCS_DIR, href), href);
+    }
+    for (const section of getEmptySections(version.routes, version.prefix)) {
+      report(
+        path.join(DOCS_DIR, section),
+        `the noLink section /docs${section} has no pages below it`,
+      );
+    }
+  }
+
+  // a translation can replace the generated page of a noLink section
+  const sectionPages = new Set(
+    VERSIONS.flatMap((it) => it.sections).map((it) =>
+      getIndexPath(DOCS_DIR, it.href),
+    ),
+  );
+  const files = LOCALES.map(({ code }) => {
+    const dir = path.join(
+      CONTENTS_DIR,
+      code == DEFAULT_LOCALE ? "" : code,
+      "docs",
+    );
+    return walk(dir, dir, false);
+  }).flat();
+  for (const { filePath, dir, excused } of files) {
+    if (path.basename(filePath) == META_FILE) {
+      for (const page of readMeta(path.dirname(filePath)).pages ?? []) {
+        if (!fs.existsSync(path.join(path.dirname(filePath), page))) {
+          report(filePath, `"pages" lists "${page}", no such folder`);
+        }
+      }
+    } else if (path.basename(filePath) != "index.mdx") {
+      report(filePath, "only index.mdx files are routed, move it to a folder");
+    } else if (dir != DOCS_DIR) {
+      // translations are served for the routes of the english page
+      const original = path.join(DOCS_DIR, path.relative(dir, filePath));
+      if (!fs.existsSync(original) && !sectionPages.has(original)) {
+        report(
+          filePath,
+          `translates ${path.relative(process.cwd(), original)}, which doesn't exist`,
+        );
+      }
+    } else if (!excused && !routed.has(filePath)) {
+      report(filePath, "orphaned, no route leads to it");
+    }
+  }
+
+  problems.forEach((it) => console.log(it));
+  console.log(
+    `checked ${routed.size} routes and ${files.length} files, ${problems.length} problems`,
+  );
+  if (problems.length) process.exit(1);
+}
+
+type ContentFile = {
+  filePath: string;
+  dir: string; // the docs folder of the locale
+  excused: boolean; // hidden or unpublished, itself or a parent
+};
+
+function walk(dir: string, root: string, excused: boolean): ContentFile[] {
+  if (!fs.existsSync(dir)) return [];
+  const frontmatter = readFrontmatter(path.join(dir, "index.mdx"));
+  const skipped =
+    excused ||
+    !!(readMeta(dir).hidden ?? frontmatter?.hidden) ||
+    (!!frontmatter && !isPublished(frontmatter));
+
+  return fs
+    .readdirSync(dir, { withFileTypes: true })
+    .map((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return walk(fullPath, root, skipped);
+      if (entry.name != META_FILE && !entry.name.endsWith(".mdx")) return [];
+      return [{ filePath: fullPath, dir: root, excused: skipped }];
+    })
+    .flat();
+}
+
+// hrefs of noLink sections, with the version prefix, that have no pages below
+function getEmptySections(routes: EachRoute[], prefix: string): string[] {
+  return routes
+    .map((route) => {
+      const href = `${prefix}${route.href}`;
+      const items = route.items ?? [];
+      const empty = route.noLink && !items.some((it) => hasPage(it, href));
+      return [...(empty ? [href] : []), ...getEmptySections(items, href)];
+    })
+    .flat();
+}
+
+function hasPage(route: EachRoute, prefix: string): boolean {
+  const href = `${prefix}${route.href}`;
+  if (!route.noLink && fs.existsSync(getIndexPath(DOCS_DIR, href))) return true;
+  return (route.items ?? []).some((it) => hasPage(it, href));
+}
+
+function getIndexPath(dir: string, href: string) {
+  return path.join(dir, href, "index.mdx");
+}
+
+main();
@@ -0,0 +1,217 @@
+// runs every code fence marked `run` in contents/docs and contents/blogs and
+// checks the output against the comments in the code:
+//
+//   bun run docs:run-examples                         (go-errors installed)
+//   bun run docs:run-examples --lib ../go-errors/dist/index.js
+//
+//   goSync(() => 42); // => [42, null]
+//   console.log("Number:", number); // logs: Number: 42
+//
+// `// => value` checks the value of a single line expression, `// logs: text`
+// checks the last line written to the console. Examples run in their own vm
+// context where fetch is a local stand-in, see lib/mock-api.ts. go-errors is
+// bundled and evaluated inside that context too, so errors thrown by the
+// examples are instances of the Error the library checks against. It is the
+// only module an example can import.
+
+import path from "path";
+import vm from "vm";
+import { execFile } from "child_process";
+import { promises as fs } from "fs";
+import { format, inspect, promisify } from "util";
+import ts from "typescript";
+import { CodeExample, getDocument } from "@/lib/content";
+import { mockFetch } from "@/lib/mock-api";
+
+const CONTENT_DIRS = ["/contents/docs/", "/contents/blogs/"];
+const LIBRARY = "go-errors";
+const TIMEOUT = 5000;
+
+const exec = promisify(execFile);
+
+const EXPECT_VALUE =
+  /^(\s*)((?:const|let|var)\s+[^=]+=\s*)?(.+?);?\s*\/\/ => (.+)$/;
+const EXPECT_LOG = /^(.+?);?\s*\/\/ logs: (.+)$/;
+
+type Assertion = { line: number; reached: boolean };
+
+async function main() {
+  const libraryPath = getLibraryPath();
+  let library: string | undefined;
+  const files = (
+    await Promise.all(
+      CONTENT_DIRS.map((dir) => getMdxFiles(path.join(process.cwd(), dir))),
+    )
+  ).flat();
+
+  let total = 0;
+  let failures = 0;
+  for (const filePath of files) {
+    const { examples } = await getDocument(filePath);
+    if (!examples.length) continue;
+    if (!libraryPath) {
+      console.error(
+        `cannot resolve "${LIBRARY}", install it or pass --lib <path to its javascript build>`,
+      );
+      process.exit(1);
+    }
+    library ??= await bundleLibrary(libraryPath);
+    for (const example of examples) {
+      total++;
+      const errors = await runExample(example, library);
+      failures += errors.length;
+      errors.forEach((it) =>
+        console.log(`${getLocation(example, filePath, it.line)} ${it.message}`),
+      );
+    }
+  }
+
+  console.log(`ran ${total} examples, ${failures} failures`);
+  if (failures) process.exit(1);
+}
+
+// errors with the line inside the example, 0 for the block itself
+async function runExample(example: CodeExample, library: string) {
+  const errors: { line: number; message: string }[] = [];
+  const assertions: Assertion[] = [];
+  const logs: string[] = [];
+  const log = (...args: unknown[]) => logs.push(format(...args));
+
+  const source = instrument(example.code, assertions);
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+    },
+  });
+
+  const module = { exports: {} };
+  const libraryModule = { exports: {} };
+  const context = vm.createContext({
+    console: { log, info: log, warn: log, error: log },
+    fetch: mockFetch,
+    Response,
+    Request,
+    Headers,
+    URL,
+    setTimeout,
+    clearTimeout,
+    module,
+    exports: module.exports,
+    require: (id: string) => {
+      if (id == LIBRARY) return libraryModule.exports;
+      throw new Error(`Cannot import "${id}" in an example`);
+    },
+    __expect: (line: number, actual: unknown, expected: unknown) => {
+      assertions[line].reached = true;
+      const [a, b] = [actual, expected].map((it) =>
+        inspect(it, { depth: null }),
+      );
+      if (a != b)
+        errors.push({ line, message: `expected ${b}, received ${a}` });
+      return actual;
+    },
+    __expectLog: (line: number, expected: string) => {
+      assertions[line].reached = true;
+      const actual = logs[logs.length - 1] ?? "";
+      if (actual.trim() != expected.trim())
+        errors.push({
+          line,
+          message: `expected log "${expected}", received "${actual}"`,
+        });
+    },
+  });
+
+  try {
+    vm.runInContext(library, context)(libraryModule, libraryModule.exports);
+    const run = vm.runInContext(
+      `(async () => {\n${outputText}\n})()`,
+      context,
+      {
+        timeout: TIMEOUT,
+      },
+    );
+    await Promise.race([
+      run,
+      new Promise((_, reject) =>
+        setTimeout(() => reject(new Error("timed out")), TIMEOUT).unref(),
+      ),
+    ]);
+  } catch (err) {
+    errors.push({ line: 0, message: `threw ${inspect(err)}` });
+  }
+  assertions.forEach((it) => {
+    if (!it.reached)
+      errors.push({ line: it.line, message: "assertion not reached" });
+  });
+  return errors;
+}
+
+// the library as a single commonjs function of (module, exports), evaluated
+// in the context of each example
+async function bundleLibrary(libraryPath: string) {
+  const { stdout } = await exec("bun", [
+    "build",
+    libraryPath,
+    "--format=cjs",
+    "--target=browser",
+  ]);
+  return `(function (module, exports) {\n${stdout}\n})`;
+}
+
+// rewrites the assertion comments into calls, keeping the line numbers
+function instrument(code: string, assertions: Assertion[]) {
+  return code
+    .split("\n")
+    .map((text, index) => {
+      const line = index + 1;
+      const value = text.match(EXPECT_VALUE);
+      if (value) {
+        const [, indent, declaration = "", expression, expected] = value;
+        assertions[line] = { line, reached: false };
+        return `${indent}${declaration}__expect(${line}, (${expression}), (${expected}));`;
+      }
+      const log = text.match(EXPECT_LOG);
+      if (log) {
+        const [, statement, expected] = log;
+        assertions[line] = { line, reached: false };
+        return `${statement}; __expectLog(${line}, ${JSON.stringify(expected)});`;
+      }
+      return text;
+    })
+    .join("\n");
+}
+
+function getLibraryPath() {
+  const index = process.argv.indexOf("--lib");
+  if (index != -1) return path.resolve(process.argv[index + 1]);
+  try {
+    return require.resolve(LIBRARY);
+  } catch {
+    return undefined;
+  }
+}
+
+// the file and line a line of the example was written on, which is a partial
+// or an example file when the code is included
+function getLocation(example: CodeExample, filePath: string, line: number) {
+  const source = example.sources?.[line] ?? { filePath, line: example.line };
+  return `${path.relative(process.cwd(), source.filePath)}:${source.line}`;
+}
+
+async function getMdxFiles(dir: string): Promise<string[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map((entry) => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return getMdxFiles(fullPath);
+      return entry.name.endsWith(".mdx") ? [fullPath] : [];
+    }),
+  );
+  return files.flat();
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});